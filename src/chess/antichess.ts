@@ -0,0 +1,152 @@
+/**
+ * Antichess variant matching python-chess chess.variant.AntichessBoard
+ *
+ * Captures are compulsory and the king is an ordinary piece, so there is
+ * no check and no castling. A side wins by losing all its pieces or by
+ * being stalemated.
+ */
+
+import {
+  Color, Square, QUEEN, KING, BB_EMPTY, BB_ALL,
+  STATUS_NO_WHITE_KING, STATUS_NO_BLACK_KING, STATUS_TOO_MANY_KINGS,
+  STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+} from './types';
+import { Bitboard, BB_SQUARES, BB_LIGHT_SQUARES, BB_DARK_SQUARES, popcount } from './bitboard';
+import { Board } from './board';
+import { Move } from './move';
+
+/**
+ * Antichess (losing chess) board.
+ * Matches python-chess chess.variant.AntichessBoard class.
+ */
+export class AntichessBoard extends Board {
+  static aliases = ['Antichess', 'Anti chess', 'Anti'];
+  static uciVariant = 'antichess';
+  static xboardVariant = 'giveaway';
+  static startingFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
+
+  // ==========================================================================
+  // Moves
+  // ==========================================================================
+
+  /** Pseudo-legal moves, including promotions to king */
+  protected *generatePseudoLegalMoves(fromMask: Bitboard, toMask: Bitboard): IterableIterator<Move> {
+    for (const move of super.generatePseudoLegalMoves(fromMask, toMask)) {
+      if (move.promotion === QUEEN) {
+        yield new Move(move.fromSquare, move.toSquare, KING);
+      }
+      yield move;
+    }
+  }
+
+  /** Captures if there are any, otherwise all other moves */
+  *generateLegalMoves(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    if (this.isVariantEnd()) return;
+
+    // Captures are compulsory, so look at them first
+    let foundCapture = false;
+    for (const move of this.generatePseudoLegalCaptures(BB_ALL, BB_ALL)) {
+      if ((BB_SQUARES[move.fromSquare] & fromMask) && (BB_SQUARES[move.toSquare] & toMask)) {
+        yield move;
+      }
+      foundCapture = true;
+    }
+
+    if (!foundCapture) {
+      yield* this.generatePseudoLegalMoves(fromMask, toMask & ~this.occupiedCo[Number(!this._turn)]);
+    }
+  }
+
+  isLegal(move: Move): boolean {
+    if (this.isVariantEnd() || !this.isPseudoLegal(move)) {
+      return false;
+    }
+
+    const fromMask = BB_SQUARES[move.fromSquare];
+    const toMask = BB_SQUARES[move.toSquare];
+    for (const capture of this.generatePseudoLegalCaptures(fromMask, toMask)) {
+      if (capture.equals(move)) return true;
+    }
+    return this.generatePseudoLegalCaptures(BB_ALL, BB_ALL).next().done === true;
+  }
+
+  /** No castling in antichess */
+  cleanCastlingRights(): Bitboard {
+    return BB_EMPTY;
+  }
+
+  // ==========================================================================
+  // Position Queries
+  // ==========================================================================
+
+  /** The king is an ordinary piece and can not be in check */
+  isCheck(): boolean {
+    return false;
+  }
+
+  protected isIntoCheck(move: Move): boolean {
+    return false;
+  }
+
+  protected wasIntoCheck(): boolean {
+    return false;
+  }
+
+  pinMask(color: Color, square: Square): Bitboard {
+    return BB_ALL;
+  }
+
+  /** Any number of kings is fine, and attacks on them are not checks */
+  status(): number {
+    return super.status() & ~(
+      STATUS_NO_WHITE_KING | STATUS_NO_BLACK_KING | STATUS_TOO_MANY_KINGS |
+      STATUS_TOO_MANY_CHECKERS | STATUS_IMPOSSIBLE_CHECK
+    );
+  }
+
+  // ==========================================================================
+  // Game End
+  // ==========================================================================
+
+  /** One side has lost all its pieces */
+  isVariantEnd(): boolean {
+    return !this.occupiedCo[0] || !this.occupiedCo[1];
+  }
+
+  /** The side to move has lost all its pieces or is stalemated */
+  isVariantWin(): boolean {
+    return !this.occupiedCo[Number(this._turn)] || this.isStalemate();
+  }
+
+  hasInsufficientMaterial(color?: Color): boolean {
+    if (color === undefined) {
+      return this.isInsufficientMaterial();
+    }
+
+    const us = this.occupiedCo[Number(color)];
+    const them = this.occupiedCo[Number(!color)];
+
+    if (!us) return false;
+    if (!them) return true;
+
+    if (this.occupied === this.bishops) {
+      // With only bishops, our bishops can never be captured if they
+      // stand on the other square color than all of the opponent's
+      const weSomeOnLight = (us & BB_LIGHT_SQUARES) !== BB_EMPTY;
+      const weSomeOnDark = (us & BB_DARK_SQUARES) !== BB_EMPTY;
+      const theyAllOnDark = !(them & BB_LIGHT_SQUARES);
+      const theyAllOnLight = !(them & BB_DARK_SQUARES);
+      return (weSomeOnLight && theyAllOnDark) || (weSomeOnDark && theyAllOnLight);
+    }
+
+    if (this.occupied === this.knights && popcount(this.knights) === 2) {
+      // Whether the lone knights can ever be forced to capture each other
+      // depends on their square colors and the side to move
+      const whiteOnLight = (this.occupiedCo[1] & BB_LIGHT_SQUARES) !== BB_EMPTY;
+      const blackOnDark = (this.occupiedCo[0] & BB_DARK_SQUARES) !== BB_EMPTY;
+      return this._turn === (color !== whiteOnLight !== blackOnDark);
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Atomic variant matching python-chess chess.variant.AtomicBoard
+ *
+ * Captures explode: the capturing piece and all non-pawns around the
+ * target square are removed. Exploding the enemy king wins, and kings
+ * may stand next to each other since neither can capture the other.
+ */
+
+import {
+  Color, PieceType, Square, WHITE, BLACK, BB_EMPTY, BB_ALL,
+  STATUS_NO_WHITE_KING, STATUS_NO_BLACK_KING, STATUS_OPPOSITE_CHECK,
+  STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+} from './types';
+import {
+  Bitboard, BB_KING_ATTACKS, BB_RANK_1, BB_RANK_8, BB_LIGHT_SQUARES, BB_DARK_SQUARES,
+  popcount, scanForward,
+} from './bitboard';
+import { Board } from './board';
+import { Move } from './move';
+
+/**
+ * Atomic chess board.
+ * Matches python-chess chess.variant.AtomicBoard class.
+ */
+export class AtomicBoard extends Board {
+  static aliases = ['Atomic', 'Atom', 'Atomic chess'];
+  static uciVariant = 'atomic';
+  static xboardVariant = 'atomic';
+
+  // ==========================================================================
+  // Moves
+  // ==========================================================================
+
+  /** Explode the capturing piece and all non-pawns around the target square */
+  protected pushCapture(move: Move, captureSquare: Square, pieceType: PieceType, wasPromoted: boolean): void {
+    const explosionRadius = BB_KING_ATTACKS[move.toSquare] & ~this.pawns;
+
+    // Destroy castling rights
+    this._castlingRooks &= ~explosionRadius;
+    if (explosionRadius & this.kings & this.occupiedCo[1] & ~this.promoted) {
+      this._castlingRooks &= ~BB_RANK_1;
+    }
+    if (explosionRadius & this.kings & this.occupiedCo[0] & ~this.promoted) {
+      this._castlingRooks &= ~BB_RANK_8;
+    }
+
+    this.removePieceTypeAt(move.toSquare);
+    for (const explosion of scanForward(explosionRadius)) {
+      this.removePieceTypeAt(explosion);
+    }
+  }
+
+  /** A move is legal if it does not explode our own king or leave it in check */
+  isLegal(move: Move): boolean {
+    if (this.isVariantEnd() || !this.isPseudoLegal(move)) {
+      return false;
+    }
+
+    this.push(move);
+    const legal = this.kings !== BB_EMPTY && !this.isVariantWin() && (this.isVariantLoss() || !this.wasIntoCheck());
+    this.pop();
+    return legal;
+  }
+
+  *generateLegalMoves(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    for (const move of this.generatePseudoLegalMoves(fromMask, toMask)) {
+      if (this.isLegal(move)) {
+        yield move;
+      }
+    }
+  }
+
+  protected isIntoCheck(move: Move): boolean {
+    this.push(move);
+    const intoCheck = this.wasIntoCheck();
+    this.pop();
+    return intoCheck;
+  }
+
+  /** The king may castle onto squares attacked only by the adjacent enemy king */
+  protected attackedForKing(path: Bitboard, occupied: Bitboard): boolean {
+    for (const enemyKing of scanForward(this.kings & this.occupiedCo[Number(!this._turn)])) {
+      path &= ~BB_KING_ATTACKS[enemyKing];
+    }
+    return super.attackedForKing(path, occupied);
+  }
+
+  // ==========================================================================
+  // Position Queries
+  // ==========================================================================
+
+  /** Connected kings are never in check */
+  isCheck(): boolean {
+    return !this.kingsConnected() && super.isCheck();
+  }
+
+  protected wasIntoCheck(): boolean {
+    return !this.kingsConnected() && super.wasIntoCheck();
+  }
+
+  isStalemate(): boolean {
+    return !this.isVariantLoss() && super.isStalemate();
+  }
+
+  /**
+   * The opponent's king may already have exploded, and explosions can
+   * uncover any number of checkers
+   */
+  status(): number {
+    let status = super.status() & ~STATUS_OPPOSITE_CHECK;
+    if (this._turn === WHITE) {
+      if (this.occupiedCo[1] & this.kings) status &= ~STATUS_NO_BLACK_KING;
+    } else {
+      if (this.occupiedCo[0] & this.kings) status &= ~STATUS_NO_WHITE_KING;
+    }
+
+    if (popcount(this.checkersMask()) <= 14) {
+      status &= ~(STATUS_TOO_MANY_CHECKERS | STATUS_IMPOSSIBLE_CHECK);
+    }
+    return status;
+  }
+
+  private kingsConnected(): boolean {
+    const whiteKings = this.kings & this.occupiedCo[1];
+    const blackKings = this.kings & this.occupiedCo[0];
+    for (const square of scanForward(whiteKings)) {
+      if (BB_KING_ATTACKS[square] & blackKings) return true;
+    }
+    return false;
+  }
+
+  // ==========================================================================
+  // Game End
+  // ==========================================================================
+
+  /** A king has exploded */
+  isVariantEnd(): boolean {
+    return !(this.kings & this.occupiedCo[0]) || !(this.kings & this.occupiedCo[1]);
+  }
+
+  /** The opponent's king has exploded */
+  isVariantWin(): boolean {
+    return this.kings !== BB_EMPTY && !(this.kings & this.occupiedCo[Number(!this._turn)]);
+  }
+
+  /** Our king has exploded */
+  isVariantLoss(): boolean {
+    return this.kings !== BB_EMPTY && !(this.kings & this.occupiedCo[Number(this._turn)]);
+  }
+
+  hasInsufficientMaterial(color?: Color): boolean {
+    if (color === undefined) {
+      return this.isInsufficientMaterial();
+    }
+
+    const us = this.occupiedCo[Number(color)];
+    const them = this.occupiedCo[Number(!color)];
+
+    // Remaining material does not matter if the opponent's king already exploded
+    if (!(them & this.kings)) return false;
+
+    // Bare king can not mate
+    if (!(us & ~this.kings)) return true;
+
+    // As long as the opponent's king is not alone, its own pieces may explode next to it,
+    // unless there are only bishops that cannot explode each other
+    if (them & ~this.kings) {
+      if (this.occupied === (this.bishops | this.kings)) {
+        const whiteBishops = this.bishops & this.occupiedCo[Number(WHITE)];
+        const blackBishops = this.bishops & this.occupiedCo[Number(BLACK)];
+        if (!(whiteBishops & BB_DARK_SQUARES)) return !(blackBishops & BB_LIGHT_SQUARES);
+        if (!(whiteBishops & BB_LIGHT_SQUARES)) return !(blackBishops & BB_DARK_SQUARES);
+      }
+      return false;
+    }
+
+    // Queen or pawn (future queen) can give mate against bare king
+    if (this.queens || this.pawns) return false;
+
+    // Single knight, bishop or rook cannot mate against bare king
+    if (popcount(this.knights | this.bishops | this.rooks) === 1) return true;
+
+    // Two knights cannot mate against bare king
+    if (this.occupied === (this.knights | this.kings)) {
+      return popcount(this.knights) <= 2;
+    }
+
+    return false;
+  }
+}
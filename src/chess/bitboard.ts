@@ -0,0 +1,257 @@
+/**
+ * Bitboards matching python-chess.
+ *
+ * A bitboard is a 64-bit mask with one bit per square (bit 0 = a1,
+ * bit 63 = h8). python-chess uses arbitrary precision integers, we use
+ * bigint and mask back to 64 bits after left shifts.
+ */
+
+import { Color, Square, SQUARES, BB_EMPTY, BB_ALL, squareFile, squareRank, squareDistance } from './types';
+
+/** Bitboard type - a 64-bit mask of squares (matches python-chess integers) */
+export type Bitboard = bigint;
+
+// =============================================================================
+// Basic Masks
+// =============================================================================
+
+/** Single-square masks indexed by square */
+export const BB_SQUARES: readonly Bitboard[] = SQUARES.map(sq => 1n << BigInt(sq));
+
+export const BB_FILE_A: Bitboard = 0x0101010101010101n;
+export const BB_FILE_B: Bitboard = BB_FILE_A << 1n;
+export const BB_FILE_C: Bitboard = BB_FILE_A << 2n;
+export const BB_FILE_D: Bitboard = BB_FILE_A << 3n;
+export const BB_FILE_E: Bitboard = BB_FILE_A << 4n;
+export const BB_FILE_F: Bitboard = BB_FILE_A << 5n;
+export const BB_FILE_G: Bitboard = BB_FILE_A << 6n;
+export const BB_FILE_H: Bitboard = BB_FILE_A << 7n;
+
+/** File masks indexed by file (0-7) */
+export const BB_FILES: readonly Bitboard[] = [
+  BB_FILE_A, BB_FILE_B, BB_FILE_C, BB_FILE_D, BB_FILE_E, BB_FILE_F, BB_FILE_G, BB_FILE_H,
+];
+
+export const BB_RANK_1: Bitboard = 0xFFn;
+export const BB_RANK_2: Bitboard = BB_RANK_1 << 8n;
+export const BB_RANK_3: Bitboard = BB_RANK_1 << 16n;
+export const BB_RANK_4: Bitboard = BB_RANK_1 << 24n;
+export const BB_RANK_5: Bitboard = BB_RANK_1 << 32n;
+export const BB_RANK_6: Bitboard = BB_RANK_1 << 40n;
+export const BB_RANK_7: Bitboard = BB_RANK_1 << 48n;
+export const BB_RANK_8: Bitboard = BB_RANK_1 << 56n;
+
+/** Rank masks indexed by rank (0-7) */
+export const BB_RANKS: readonly Bitboard[] = [
+  BB_RANK_1, BB_RANK_2, BB_RANK_3, BB_RANK_4, BB_RANK_5, BB_RANK_6, BB_RANK_7, BB_RANK_8,
+];
+
+export const BB_BACKRANKS: Bitboard = BB_RANK_1 | BB_RANK_8;
+export const BB_LIGHT_SQUARES: Bitboard = 0x55AA55AA55AA55AAn;
+export const BB_DARK_SQUARES: Bitboard = 0xAA55AA55AA55AA55n;
+export const BB_CORNERS: Bitboard = BB_SQUARES[0] | BB_SQUARES[7] | BB_SQUARES[56] | BB_SQUARES[63];
+export const BB_CENTER: Bitboard = BB_SQUARES[27] | BB_SQUARES[28] | BB_SQUARES[35] | BB_SQUARES[36];
+
+// =============================================================================
+// Bit Utility Functions
+// =============================================================================
+
+const LOW_32: Bitboard = 0xFFFFFFFFn;
+
+/** Index of the least significant set bit, or -1 for an empty mask */
+export function lsb(bb: Bitboard): Square {
+  const low = Number(bb & LOW_32);
+  if (low !== 0) {
+    return 31 - Math.clz32(low & -low);
+  }
+  const high = Number(bb >> 32n);
+  return high !== 0 ? 63 - Math.clz32(high & -high) : -1;
+}
+
+/** Index of the most significant set bit, or -1 for an empty mask */
+export function msb(bb: Bitboard): Square {
+  const high = Number(bb >> 32n);
+  if (high !== 0) {
+    return 63 - Math.clz32(high);
+  }
+  const low = Number(bb & LOW_32);
+  return low !== 0 ? 31 - Math.clz32(low) : -1;
+}
+
+/** Number of set bits */
+export function popcount(bb: Bitboard): number {
+  let count = 0;
+  for (let part of [Number(bb & LOW_32), Number(bb >> 32n)]) {
+    while (part !== 0) {
+      part &= part - 1;
+      count++;
+    }
+  }
+  return count;
+}
+
+/** Iterate squares of a mask from a1 to h8. Matches chess.scan_forward() */
+export function* scanForward(bb: Bitboard): IterableIterator<Square> {
+  while (bb) {
+    const square = lsb(bb);
+    yield square;
+    bb ^= BB_SQUARES[square];
+  }
+}
+
+/** Iterate squares of a mask from h8 to a1. Matches chess.scan_reverse() */
+export function* scanReverse(bb: Bitboard): IterableIterator<Square> {
+  while (bb) {
+    const square = msb(bb);
+    yield square;
+    bb ^= BB_SQUARES[square];
+  }
+}
+
+/** Mirror a mask vertically (rank 1 <-> rank 8). Matches chess.flip_vertical() */
+export function flipVertical(bb: Bitboard): Bitboard {
+  bb = ((bb >> 8n) & 0x00FF00FF00FF00FFn) | ((bb & 0x00FF00FF00FF00FFn) << 8n);
+  bb = ((bb >> 16n) & 0x0000FFFF0000FFFFn) | ((bb & 0x0000FFFF0000FFFFn) << 16n);
+  bb = (bb >> 32n) | ((bb & 0x00000000FFFFFFFFn) << 32n);
+  return bb & BB_ALL;
+}
+
+/** Shift a mask one rank towards rank 8 */
+export function shiftUp(bb: Bitboard): Bitboard {
+  return (bb << 8n) & BB_ALL;
+}
+
+/** Shift a mask one rank towards rank 1 */
+export function shiftDown(bb: Bitboard): Bitboard {
+  return bb >> 8n;
+}
+
+// =============================================================================
+// Attack Tables
+// =============================================================================
+
+function slidingAttacks(square: Square, occupied: Bitboard, deltas: number[]): Bitboard {
+  let attacks = BB_EMPTY;
+
+  for (const delta of deltas) {
+    let sq = square;
+    for (;;) {
+      sq += delta;
+      if (sq < 0 || sq >= 64 || squareDistance(sq, sq - delta) > 2) break;
+      attacks |= BB_SQUARES[sq];
+      if (occupied & BB_SQUARES[sq]) break;
+    }
+  }
+
+  return attacks;
+}
+
+function stepAttacks(square: Square, deltas: number[]): Bitboard {
+  return slidingAttacks(square, BB_ALL, deltas);
+}
+
+/** Knight attacks indexed by square */
+export const BB_KNIGHT_ATTACKS: readonly Bitboard[] =
+  SQUARES.map(sq => stepAttacks(sq, [17, 15, 10, 6, -17, -15, -10, -6]));
+
+/** King attacks indexed by square */
+export const BB_KING_ATTACKS: readonly Bitboard[] =
+  SQUARES.map(sq => stepAttacks(sq, [9, 8, 7, 1, -9, -8, -7, -1]));
+
+/** Pawn attacks indexed by color (0 = black, 1 = white), then square */
+export const BB_PAWN_ATTACKS: readonly (readonly Bitboard[])[] = [
+  SQUARES.map(sq => stepAttacks(sq, [-7, -9])),
+  SQUARES.map(sq => stepAttacks(sq, [7, 9])),
+];
+
+/** Pawn attacks of a piece of the given color standing on a square */
+export function pawnAttacks(color: Color, square: Square): Bitboard {
+  return BB_PAWN_ATTACKS[Number(color)][square];
+}
+
+function edges(square: Square): Bitboard {
+  return ((BB_RANK_1 | BB_RANK_8) & ~BB_RANKS[squareRank(square)]) |
+         ((BB_FILE_A | BB_FILE_H) & ~BB_FILES[squareFile(square)]);
+}
+
+function* carryRippler(mask: Bitboard): IterableIterator<Bitboard> {
+  // Enumerate all subsets of the mask (Carry-Rippler trick)
+  let subset = BB_EMPTY;
+  do {
+    yield subset;
+    subset = (subset - mask) & mask;
+  } while (subset);
+}
+
+function attackTable(deltas: number[]): [Bitboard[], Map<Bitboard, Bitboard>[]] {
+  const maskTable: Bitboard[] = [];
+  const attackTable: Map<Bitboard, Bitboard>[] = [];
+
+  for (const square of SQUARES) {
+    const attacks = new Map<Bitboard, Bitboard>();
+    const mask = slidingAttacks(square, BB_EMPTY, deltas) & ~edges(square);
+    for (const subset of carryRippler(mask)) {
+      attacks.set(subset, slidingAttacks(square, subset, deltas));
+    }
+    attackTable.push(attacks);
+    maskTable.push(mask);
+  }
+
+  return [maskTable, attackTable];
+}
+
+/**
+ * Sliding attack tables. Look up with the relevant occupancy, e.g.
+ * `BB_DIAG_ATTACKS[sq].get(BB_DIAG_MASKS[sq] & occupied)`.
+ */
+export const [BB_DIAG_MASKS, BB_DIAG_ATTACKS] = attackTable([-9, -7, 7, 9]);
+export const [BB_FILE_MASKS, BB_FILE_ATTACKS] = attackTable([-8, 8]);
+export const [BB_RANK_MASKS, BB_RANK_ATTACKS] = attackTable([-1, 1]);
+
+/** Diagonal attacks from a square given the board occupancy */
+export function diagAttacks(square: Square, occupied: Bitboard): Bitboard {
+  return BB_DIAG_ATTACKS[square].get(BB_DIAG_MASKS[square] & occupied)!;
+}
+
+/** File attacks from a square given the board occupancy */
+export function fileAttacks(square: Square, occupied: Bitboard): Bitboard {
+  return BB_FILE_ATTACKS[square].get(BB_FILE_MASKS[square] & occupied)!;
+}
+
+/** Rank attacks from a square given the board occupancy */
+export function rankAttacks(square: Square, occupied: Bitboard): Bitboard {
+  return BB_RANK_ATTACKS[square].get(BB_RANK_MASKS[square] & occupied)!;
+}
+
+// =============================================================================
+// Rays
+// =============================================================================
+
+const BB_RAYS: readonly (readonly Bitboard[])[] = SQUARES.map(a => {
+  const bbA = BB_SQUARES[a];
+  return SQUARES.map(b => {
+    const bbB = BB_SQUARES[b];
+    if (diagAttacks(a, BB_EMPTY) & bbB) {
+      return (diagAttacks(a, BB_EMPTY) & diagAttacks(b, BB_EMPTY)) | bbA | bbB;
+    } else if (rankAttacks(a, BB_EMPTY) & bbB) {
+      return rankAttacks(a, BB_EMPTY) | bbA;
+    } else if (fileAttacks(a, BB_EMPTY) & bbB) {
+      return fileAttacks(a, BB_EMPTY) | bbA;
+    }
+    return BB_EMPTY;
+  });
+});
+
+/**
+ * Full line through two squares (edge to edge), or empty if the squares
+ * are not on a common rank, file or diagonal. Matches chess.ray()
+ */
+export function ray(a: Square, b: Square): Bitboard {
+  return BB_RAYS[a][b];
+}
+
+/** Squares strictly between two aligned squares. Matches chess.between() */
+export function between(a: Square, b: Square): Bitboard {
+  const bb = BB_RAYS[a][b] & ((BB_ALL << BigInt(a)) ^ (BB_ALL << BigInt(b)));
+  return bb & (bb - 1n);
+}
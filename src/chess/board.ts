@@ -1,8 +1,8 @@
 /**
  * Board class matching python-chess chess.Board
- * 
+ *
  * This is a full chess board implementation that can:
- * - Track piece positions
+ * - Track piece positions (as bitboards, like python-chess)
  * - Validate and execute moves
  * - Generate legal moves
  * - Parse and generate SAN/UCI notation
@@ -13,60 +13,106 @@ import {
   Color, PieceType, Square,
   WHITE, BLACK,
   PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING,
-  STARTING_FEN,
+  STARTING_FEN, BB_EMPTY, BB_ALL, PIECE_VALUES,
   squareFile, squareRank, squareFromFileRank, squareName, parseSquare,
-  SQUARE_NAMES, FILE_NAMES,
+  FILE_NAMES, RANK_NAMES,
   CASTLING_WHITE_KINGSIDE, CASTLING_WHITE_QUEENSIDE,
   CASTLING_BLACK_KINGSIDE, CASTLING_BLACK_QUEENSIDE,
-  A1, H1, A8, H8, E1, E8, C1, G1, C8, G8, D1, F1, D8, F8,
+  STATUS_VALID, STATUS_EMPTY, STATUS_NO_WHITE_KING, STATUS_NO_BLACK_KING, STATUS_TOO_MANY_KINGS,
+  STATUS_TOO_MANY_WHITE_PIECES, STATUS_TOO_MANY_BLACK_PIECES,
+  STATUS_TOO_MANY_WHITE_PAWNS, STATUS_TOO_MANY_BLACK_PAWNS, STATUS_PAWNS_ON_BACKRANK,
+  STATUS_BAD_CASTLING_RIGHTS, STATUS_INVALID_EP_SQUARE, STATUS_OPPOSITE_CHECK,
+  STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+  A1, H1, A2, A4, A8, H8, E1, E8, C1, G1, C8, G8,
 } from './types';
+import {
+  Bitboard, BB_SQUARES, BB_RANKS, BB_FILES,
+  BB_RANK_1, BB_RANK_2, BB_RANK_3, BB_RANK_4, BB_RANK_5, BB_RANK_6, BB_RANK_7, BB_RANK_8,
+  BB_BACKRANKS,
+  BB_LIGHT_SQUARES, BB_DARK_SQUARES, BB_CORNERS,
+  BB_KNIGHT_ATTACKS, BB_KING_ATTACKS,
+  BB_DIAG_MASKS, BB_FILE_MASKS, BB_RANK_MASKS,
+  lsb, msb, popcount, scanReverse, shiftUp, shiftDown, pawnAttacks,
+  diagAttacks, fileAttacks, rankAttacks, ray, between,
+} from './bitboard';
 import { Move } from './move';
 import { Piece } from './piece';
-
-// Attack tables and move generation helpers
-const KNIGHT_MOVES = [
-  [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-  [1, -2], [1, 2], [2, -1], [2, 1]
-];
-
-const KING_MOVES = [
-  [-1, -1], [-1, 0], [-1, 1],
-  [0, -1], [0, 1],
-  [1, -1], [1, 0], [1, 1]
-];
-
-const BISHOP_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
-const ROOK_DIRECTIONS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-const QUEEN_DIRECTIONS = [...BISHOP_DIRECTIONS, ...ROOK_DIRECTIONS];
+import { SquareSet } from './square-set';
+import { Outcome, Termination } from './outcome';
+import { FenError, FenField, FenNormalization, fenNormalization, fenFields } from './fen';
+import {
+  zobristPieceKey, zobristCastlingKey, zobristEpKey, ZOBRIST_TURN_KEY,
+} from './zobrist';
 
 /**
  * Chess board with full game state.
  * Matches python-chess chess.Board class.
  */
 export class Board {
-  // Piece placement: 64-element array, null for empty squares
-  private pieces: (Piece | null)[];
-  
+  /** Variant names, the first one used in PGN Variant headers. Matches Board.aliases */
+  static aliases: string[] = ['Standard', 'Chess', 'Classical', 'Normal', 'Illegal', 'From Position'];
+
+  /** Variant name used by UCI engines. Matches Board.uci_variant */
+  static uciVariant: string = 'chess';
+
+  /** Variant name used by XBoard engines. Matches Board.xboard_variant */
+  static xboardVariant: string = 'normal';
+
+  /** Starting position of the variant. Matches Board.starting_fen */
+  static startingFen: string = STARTING_FEN;
+
+  // Piece placement bitboards (matching python-chess board.pawns etc.)
+  pawns: Bitboard = BB_EMPTY;
+  knights: Bitboard = BB_EMPTY;
+  bishops: Bitboard = BB_EMPTY;
+  rooks: Bitboard = BB_EMPTY;
+  queens: Bitboard = BB_EMPTY;
+  kings: Bitboard = BB_EMPTY;
+
+  /** Occupancy by color, indexed by Number(color): [black, white] */
+  occupiedCo: [Bitboard, Bitboard] = [BB_EMPTY, BB_EMPTY];
+
+  /** All occupied squares */
+  occupied: Bitboard = BB_EMPTY;
+
+  /** Pieces that were promoted from pawns (tracked for Crazyhouse) */
+  promoted: Bitboard = BB_EMPTY;
+
+  /** Chess960 mode: castling moves are encoded as king takes rook */
+  chess960: boolean;
+
   // Game state
-  private _turn: Color;
-  private _castlingRights: number;
-  private _epSquare: Square | null;
-  private _halfmoveClock: number;
-  private _fullmoveNumber: number;
-  
-  // Move stack for undo
-  private moveStack: { move: Move; capturedPiece: Piece | null; prevState: BoardState }[];
-
-  constructor(fen: string = STARTING_FEN) {
-    this.pieces = new Array(64).fill(null);
+  protected _turn: Color;
+  protected _castlingRooks: Bitboard;
+  protected _epSquare: Square | null;
+  protected _halfmoveClock: number;
+  protected _fullmoveNumber: number;
+
+  // Incremental Zobrist key of pieces and turn (castling and en passant are added on demand)
+  protected _zobristKey: bigint;
+
+  // Move stack for undo, with the state before each move
+  protected stack: { move: Move; state: BoardState }[];
+
+  /**
+   * Create a board from a FEN string, by default the variant's starting position.
+   * Pass null for an empty board (matches python-chess Board(None)).
+   *
+   * @param options.chess960 - Enable Chess960 castling (matches Board(fen, chess960=True))
+   */
+  constructor(fen?: string | null, options?: { chess960?: boolean }) {
+    this.chess960 = options?.chess960 ?? false;
     this._turn = WHITE;
-    this._castlingRights = 0;
+    this._castlingRooks = BB_EMPTY;
     this._epSquare = null;
     this._halfmoveClock = 0;
     this._fullmoveNumber = 1;
-    this.moveStack = [];
-    
-    this.setFen(fen);
+    this._zobristKey = ZOBRIST_TURN_KEY;
+    this.stack = [];
+
+    if (fen !== null) {
+      this.setFen(fen ?? (this.constructor as typeof Board).startingFen);
+    }
   }
 
   // ==========================================================================
@@ -79,16 +125,44 @@ export class Board {
   }
 
   set turn(value: Color) {
+    if (value !== this._turn) {
+      this._zobristKey ^= ZOBRIST_TURN_KEY;
+    }
     this._turn = value;
   }
 
-  /** Castling rights as bitmask */
+  /**
+   * Castling rights as CASTLING_* bitmask. In Chess960 kingside means the
+   * rook on the h-side of the king, queenside the rook on the a-side.
+   */
   get castlingRights(): number {
-    return this._castlingRights;
+    let rights = 0;
+    if (this.hasKingsideCastlingRights(WHITE)) rights |= CASTLING_WHITE_KINGSIDE;
+    if (this.hasQueensideCastlingRights(WHITE)) rights |= CASTLING_WHITE_QUEENSIDE;
+    if (this.hasKingsideCastlingRights(BLACK)) rights |= CASTLING_BLACK_KINGSIDE;
+    if (this.hasQueensideCastlingRights(BLACK)) rights |= CASTLING_BLACK_QUEENSIDE;
+    return rights;
   }
 
   set castlingRights(value: number) {
-    this._castlingRights = value;
+    let rooks = BB_EMPTY;
+    if (value & CASTLING_WHITE_KINGSIDE) rooks |= this.castlingRookMask('K');
+    if (value & CASTLING_WHITE_QUEENSIDE) rooks |= this.castlingRookMask('Q');
+    if (value & CASTLING_BLACK_KINGSIDE) rooks |= this.castlingRookMask('k');
+    if (value & CASTLING_BLACK_QUEENSIDE) rooks |= this.castlingRookMask('q');
+    this._castlingRooks = rooks;
+  }
+
+  /**
+   * Castling rights as a bitboard of the rook squares, without cleaning.
+   * Matches python-chess board.castling_rights
+   */
+  get castlingRooks(): Bitboard {
+    return this._castlingRooks;
+  }
+
+  set castlingRooks(value: Bitboard) {
+    this._castlingRooks = value & BB_ALL;
   }
 
   /** En passant square, or null */
@@ -109,6 +183,11 @@ export class Board {
     this._halfmoveClock = value;
   }
 
+  /** Moves played since the position was set up. Matches board.move_stack */
+  get moveStack(): Move[] {
+    return this.stack.map(entry => entry.move);
+  }
+
   /** Fullmove number */
   get fullmoveNumber(): number {
     return this._fullmoveNumber;
@@ -124,30 +203,115 @@ export class Board {
 
   /** Get piece at square, or null. Matches board.piece_at() */
   pieceAt(square: Square): Piece | null {
-    return this.pieces[square];
+    const pieceType = this.pieceTypeAt(square);
+    if (pieceType === null) return null;
+    return new Piece(pieceType, (this.occupiedCo[1] & BB_SQUARES[square]) !== BB_EMPTY);
+  }
+
+  /** Get piece type at square, or null. Matches board.piece_type_at() */
+  pieceTypeAt(square: Square): PieceType | null {
+    const mask = BB_SQUARES[square];
+    if (!(this.occupied & mask)) return null;
+    if (this.pawns & mask) return PAWN;
+    if (this.knights & mask) return KNIGHT;
+    if (this.bishops & mask) return BISHOP;
+    if (this.rooks & mask) return ROOK;
+    if (this.queens & mask) return QUEEN;
+    return KING;
+  }
+
+  /** Get color of the piece at square, or null. Matches board.color_at() */
+  colorAt(square: Square): Color | null {
+    const mask = BB_SQUARES[square];
+    if (this.occupiedCo[1] & mask) return WHITE;
+    if (this.occupiedCo[0] & mask) return BLACK;
+    return null;
   }
 
-  /** Set piece at square (or null to clear) */
-  setPieceAt(square: Square, piece: Piece | null): void {
-    this.pieces[square] = piece;
+  /** Set piece at square (or null to clear), optionally marked as promoted */
+  setPieceAt(square: Square, piece: Piece | null, promoted: boolean = false): void {
+    if (piece === null) {
+      this.removePieceAt(square);
+    } else {
+      this.setPieceTypeAt(square, piece.pieceType, piece.color, promoted);
+    }
   }
 
   /** Remove piece at square, returns the removed piece */
   removePieceAt(square: Square): Piece | null {
-    const piece = this.pieces[square];
-    this.pieces[square] = null;
-    return piece;
+    const color = this.colorAt(square);
+    const pieceType = this.removePieceTypeAt(square);
+    return pieceType === null ? null : new Piece(pieceType, color!);
   }
 
   /** Find the king square for a color, or null if no king */
   king(color: Color): Square | null {
-    for (let sq = 0; sq < 64; sq++) {
-      const piece = this.pieces[sq];
-      if (piece && piece.pieceType === KING && piece.color === color) {
-        return sq;
-      }
+    const kingMask = this.kings & this.occupiedCo[Number(color)] & ~this.promoted;
+    return kingMask ? msb(kingMask) : null;
+  }
+
+  /** Bitboard of pieces of a type and color. Matches board.pieces_mask() */
+  piecesMask(pieceType: PieceType, color: Color): Bitboard {
+    return this.pieceTypeMask(pieceType) & this.occupiedCo[Number(color)];
+  }
+
+  /** Squares with pieces of a type and color. Matches board.pieces() */
+  pieces(pieceType: PieceType, color: Color): SquareSet {
+    return new SquareSet(this.piecesMask(pieceType, color));
+  }
+
+  protected pieceTypeMask(pieceType: PieceType): Bitboard {
+    switch (pieceType) {
+      case PAWN: return this.pawns;
+      case KNIGHT: return this.knights;
+      case BISHOP: return this.bishops;
+      case ROOK: return this.rooks;
+      case QUEEN: return this.queens;
+      default: return this.kings;
     }
-    return null;
+  }
+
+  protected removePieceTypeAt(square: Square): PieceType | null {
+    const pieceType = this.pieceTypeAt(square);
+    if (pieceType === null) return null;
+
+    const mask = BB_SQUARES[square];
+    switch (pieceType) {
+      case PAWN: this.pawns ^= mask; break;
+      case KNIGHT: this.knights ^= mask; break;
+      case BISHOP: this.bishops ^= mask; break;
+      case ROOK: this.rooks ^= mask; break;
+      case QUEEN: this.queens ^= mask; break;
+      default: this.kings ^= mask; break;
+    }
+
+    this._zobristKey ^= zobristPieceKey(square, pieceType, (this.occupiedCo[1] & mask) !== BB_EMPTY);
+    this.occupied ^= mask;
+    this.occupiedCo[0] &= ~mask;
+    this.occupiedCo[1] &= ~mask;
+    this.promoted &= ~mask;
+    return pieceType;
+  }
+
+  protected setPieceTypeAt(square: Square, pieceType: PieceType, color: Color, promoted: boolean = false): void {
+    this.removePieceTypeAt(square);
+
+    const mask = BB_SQUARES[square];
+    switch (pieceType) {
+      case PAWN: this.pawns |= mask; break;
+      case KNIGHT: this.knights |= mask; break;
+      case BISHOP: this.bishops |= mask; break;
+      case ROOK: this.rooks |= mask; break;
+      case QUEEN: this.queens |= mask; break;
+      default: this.kings |= mask; break;
+    }
+
+    this.occupied |= mask;
+    this.occupiedCo[Number(color)] |= mask;
+    if (promoted) {
+      this.promoted |= mask;
+    }
+    this._zobristKey ^= zobristPieceKey(square, pieceType, color);
   }
 
   // ==========================================================================
@@ -156,120 +320,117 @@ export class Board {
 
   /** Apply a move. Matches board.push() */
   push(move: Move): void {
-    // Save state for undo
-    const prevState = this.saveState();
-    const capturedPiece = this.pieces[move.toSquare];
-    
-    this.moveStack.push({ move, capturedPiece, prevState });
-    
-    const piece = this.pieces[move.fromSquare];
-    if (!piece) {
+    move = this.toChess960(move);
+    const pieceType = move.isNull() ? null : move.drop ?? this.pieceTypeAt(move.fromSquare);
+    if (pieceType === null && !move.isNull()) {
       throw new Error(`No piece at ${squareName(move.fromSquare)}`);
     }
 
-    // Handle special moves
-    if (piece.pieceType === KING) {
-      // Castling
-      if (Math.abs(squareFile(move.fromSquare) - squareFile(move.toSquare)) === 2) {
-        this.handleCastling(move, piece.color);
-        this.updateStateAfterMove(piece, move, null);
-        return;
-      }
-    }
+    // Save state for undo, then clean castling rights once for the game
+    const state = this.saveState();
+    this._castlingRooks = this.cleanCastlingRights();
+    this.stack.push({
+      move: this.fromChess960(this.chess960, move.fromSquare, move.toSquare, move.promotion, move.drop),
+      state,
+    });
 
-    // En passant capture
-    let actualCapture = capturedPiece;
-    if (piece.pieceType === PAWN && move.toSquare === this._epSquare) {
-      const capturedPawnSquare = move.toSquare + (piece.color === WHITE ? -8 : 8);
-      actualCapture = this.pieces[capturedPawnSquare];
-      this.pieces[capturedPawnSquare] = null;
-    }
+    const color = this._turn;
+    const epSquare = this._epSquare;
+    const fromBb = BB_SQUARES[move.fromSquare];
+    const toBb = BB_SQUARES[move.toSquare];
 
-    // Move the piece
-    this.pieces[move.fromSquare] = null;
-    
-    // Handle promotion
-    if (move.promotion) {
-      this.pieces[move.toSquare] = new Piece(move.promotion, piece.color);
-    } else {
-      this.pieces[move.toSquare] = piece;
+    this._epSquare = null;
+    this._halfmoveClock++;
+    if (color === BLACK) {
+      this._fullmoveNumber++;
     }
 
-    this.updateStateAfterMove(piece, move, actualCapture);
-  }
-
-  private handleCastling(move: Move, color: Color): void {
-    // Move king
-    this.pieces[move.fromSquare] = null;
-    this.pieces[move.toSquare] = new Piece(KING, color);
+    // Null moves only pass the turn
+    if (pieceType === null) {
+      this._turn = !color;
+      this._zobristKey ^= ZOBRIST_TURN_KEY;
+      return;
+    }
 
-    // Move rook
-    if (squareFile(move.toSquare) === 6) {
-      // Kingside
-      const rookFrom = color === WHITE ? H1 : H8;
-      const rookTo = color === WHITE ? F1 : F8;
-      this.pieces[rookFrom] = null;
-      this.pieces[rookTo] = new Piece(ROOK, color);
-    } else {
-      // Queenside
-      const rookFrom = color === WHITE ? A1 : A8;
-      const rookTo = color === WHITE ? D1 : D8;
-      this.pieces[rookFrom] = null;
-      this.pieces[rookTo] = new Piece(ROOK, color);
+    // Drops
+    if (move.drop !== null) {
+      if (move.drop === PAWN) {
+        this._halfmoveClock = 0;
+      }
+      this.setPieceTypeAt(move.toSquare, move.drop, color);
+      this._turn = !color;
+      this._zobristKey ^= ZOBRIST_TURN_KEY;
+      return;
     }
-  }
 
-  private updateStateAfterMove(piece: Piece, move: Move, captured: Piece | null): void {
-    // Update en passant square
-    if (piece.pieceType === PAWN && Math.abs(squareRank(move.toSquare) - squareRank(move.fromSquare)) === 2) {
-      this._epSquare = (move.fromSquare + move.toSquare) / 2;
-    } else {
-      this._epSquare = null;
+    if (this.isZeroing(move)) {
+      this._halfmoveClock = 0;
     }
+    let promoted = (this.promoted & fromBb) !== BB_EMPTY;
+    let captureSquare = move.toSquare;
+    let capturedPieceType = this.pieceTypeAt(move.toSquare);
 
     // Update castling rights
-    if (piece.pieceType === KING) {
-      if (piece.color === WHITE) {
-        this._castlingRights &= ~(CASTLING_WHITE_KINGSIDE | CASTLING_WHITE_QUEENSIDE);
-      } else {
-        this._castlingRights &= ~(CASTLING_BLACK_KINGSIDE | CASTLING_BLACK_QUEENSIDE);
-      }
+    this._castlingRooks &= ~fromBb & ~toBb;
+    if (pieceType === KING && !promoted) {
+      this._castlingRooks &= color === WHITE ? ~BB_RANK_1 : ~BB_RANK_8;
     }
-    if (piece.pieceType === ROOK) {
-      if (move.fromSquare === A1) this._castlingRights &= ~CASTLING_WHITE_QUEENSIDE;
-      if (move.fromSquare === H1) this._castlingRights &= ~CASTLING_WHITE_KINGSIDE;
-      if (move.fromSquare === A8) this._castlingRights &= ~CASTLING_BLACK_QUEENSIDE;
-      if (move.fromSquare === H8) this._castlingRights &= ~CASTLING_BLACK_KINGSIDE;
-    }
-    if (captured && captured.pieceType === ROOK) {
-      if (move.toSquare === A1) this._castlingRights &= ~CASTLING_WHITE_QUEENSIDE;
-      if (move.toSquare === H1) this._castlingRights &= ~CASTLING_WHITE_KINGSIDE;
-      if (move.toSquare === A8) this._castlingRights &= ~CASTLING_BLACK_QUEENSIDE;
-      if (move.toSquare === H8) this._castlingRights &= ~CASTLING_BLACK_KINGSIDE;
+
+    this.removePieceTypeAt(move.fromSquare);
+
+    if (pieceType === PAWN) {
+      const diff = move.toSquare - move.fromSquare;
+
+      if (diff === 16 && squareRank(move.fromSquare) === 1) {
+        this._epSquare = move.fromSquare + 8;
+      } else if (diff === -16 && squareRank(move.fromSquare) === 6) {
+        this._epSquare = move.fromSquare - 8;
+      } else if (move.toSquare === epSquare && Math.abs(diff) % 8 !== 0 && capturedPieceType === null) {
+        // En passant capture
+        captureSquare = move.toSquare + (color === WHITE ? -8 : 8);
+        capturedPieceType = this.removePieceTypeAt(captureSquare);
+      }
     }
 
-    // Update halfmove clock
-    if (piece.pieceType === PAWN || captured !== null) {
-      this._halfmoveClock = 0;
-    } else {
-      this._halfmoveClock++;
+    if (move.promotion !== null) {
+      promoted = true;
     }
 
-    // Update fullmove number
-    if (this._turn === BLACK) {
-      this._fullmoveNumber++;
+    if (pieceType === KING && (this.occupiedCo[Number(color)] & toBb)) {
+      // Castling: the king takes its own rook, both land on the c/d or g/f files
+      const aSide = squareFile(move.toSquare) < squareFile(move.fromSquare);
+      const rank = squareRank(move.fromSquare);
+      this.removePieceTypeAt(move.toSquare);
+      this.setPieceTypeAt(squareFromFileRank(aSide ? 2 : 6, rank), KING, color);
+      this.setPieceTypeAt(squareFromFileRank(aSide ? 3 : 5, rank), ROOK, color);
+    } else {
+      // Put the piece (or its promotion) on the target square
+      const wasPromoted = (this.promoted & toBb) !== BB_EMPTY;
+      this.setPieceTypeAt(move.toSquare, move.promotion ?? pieceType, color, promoted);
+      if (capturedPieceType !== null) {
+        this.pushCapture(move, captureSquare, capturedPieceType, wasPromoted);
+      }
     }
 
     // Switch turn
-    this._turn = !this._turn;
+    this._turn = !color;
+    this._zobristKey ^= ZOBRIST_TURN_KEY;
+  }
+
+  /**
+   * Hook called by push() after a piece was captured, before the turn
+   * changes. Matches board._push_capture()
+   */
+  protected pushCapture(move: Move, captureSquare: Square, pieceType: PieceType, wasPromoted: boolean): void {
+    // Only needed by variants
   }
 
   /** Undo the last move. Matches board.pop() */
   pop(): Move | null {
-    const entry = this.moveStack.pop();
+    const entry = this.stack.pop();
     if (!entry) return null;
 
-    this.restoreState(entry.prevState);
+    this.restoreState(entry.state);
     return entry.move;
   }
 
@@ -282,7 +443,7 @@ export class Board {
 
   /** Parse UCI and apply the move. Matches board.push_uci() */
   pushUci(uci: string): Move {
-    const move = Move.fromUci(uci);
+    const move = this.parseUci(uci);
     this.push(move);
     return move;
   }
@@ -295,17 +456,16 @@ export class Board {
   parseSan(san: string): Move {
     // Clean up the SAN
     let s = san.replace(/[+#!?]+$/, '').trim();
-    
-    // Castling
-    if (s === 'O-O' || s === '0-0') {
-      const from = this._turn === WHITE ? E1 : E8;
-      const to = this._turn === WHITE ? G1 : G8;
-      return new Move(from, to);
-    }
-    if (s === 'O-O-O' || s === '0-0-0') {
-      const from = this._turn === WHITE ? E1 : E8;
-      const to = this._turn === WHITE ? C1 : C8;
-      return new Move(from, to);
+
+    // Castling, with the rook on any file in Chess960
+    if (s === 'O-O' || s === '0-0' || s === 'O-O-O' || s === '0-0-0') {
+      const kingside = s.length === 3;
+      for (const move of this.generateCastlingMoves(BB_ALL, BB_ALL)) {
+        if ((squareFile(move.toSquare) > squareFile(move.fromSquare)) === kingside) {
+          return move;
+        }
+      }
+      throw new Error(`Illegal move: ${san}`);
     }
 
     // Null move
@@ -313,12 +473,24 @@ export class Board {
       return Move.null();
     }
 
+    // Drops (Crazyhouse), e.g. N@f3 or P@e4 (the P is optional)
+    const dropMatch = s.match(/^([PNBRQK]?)@([a-h][1-8])$/);
+    if (dropMatch) {
+      const drop = { '': PAWN, 'P': PAWN, 'N': KNIGHT, 'B': BISHOP, 'R': ROOK, 'Q': QUEEN, 'K': KING }[dropMatch[1]]!;
+      const toSquare = parseSquare(dropMatch[2])!;
+      const move = new Move(toSquare, toSquare, null, drop);
+      if (!this.isLegal(move)) {
+        throw new Error(`Illegal move: ${san}`);
+      }
+      return move;
+    }
+
     // Parse promotion
     let promotion: PieceType | null = null;
-    const promMatch = s.match(/=?([QRBN])$/i);
+    const promMatch = s.match(/=?([QRBNK])$/i);
     if (promMatch) {
       const promChar = promMatch[1].toLowerCase();
-      promotion = { 'q': QUEEN, 'r': ROOK, 'b': BISHOP, 'n': KNIGHT }[promChar] as PieceType;
+      promotion = { 'q': QUEEN, 'r': ROOK, 'b': BISHOP, 'n': KNIGHT, 'k': KING }[promChar] as PieceType;
       s = s.slice(0, -promMatch[0].length);
     }
 
@@ -341,112 +513,306 @@ export class Board {
     }
 
     // Parse disambiguation (file and/or rank)
-    let disambigFile: number | null = null;
-    let disambigRank: number | null = null;
+    let fromMask = this.piecesMask(pieceType, this._turn);
     for (const c of s) {
       if (c >= 'a' && c <= 'h') {
-        disambigFile = c.charCodeAt(0) - 'a'.charCodeAt(0);
+        fromMask &= BB_FILES[c.charCodeAt(0) - 'a'.charCodeAt(0)];
       } else if (c >= '1' && c <= '8') {
-        disambigRank = parseInt(c) - 1;
+        fromMask &= BB_RANKS[parseInt(c) - 1];
       }
     }
 
-    // Find the matching legal move
-    for (const move of this.legalMoves()) {
-      const fromPiece = this.pieces[move.fromSquare];
-      if (!fromPiece) continue;
-      if (fromPiece.pieceType !== pieceType) continue;
-      if (move.toSquare !== toSquare) continue;
-      if (move.promotion !== promotion) continue;
-      
-      if (disambigFile !== null && squareFile(move.fromSquare) !== disambigFile) continue;
-      if (disambigRank !== null && squareRank(move.fromSquare) !== disambigRank) continue;
-
+    // Find the matching legal move (castling is only written as O-O or O-O-O)
+    for (const move of this.generateLegalMoves(fromMask, BB_SQUARES[toSquare])) {
+      if (move.promotion !== promotion || this.isCastling(move)) continue;
       return move;
     }
 
     throw new Error(`Illegal move: ${san}`);
   }
 
-  /** Parse UCI notation to a Move. Matches board.parse_uci() */
+  /**
+   * Parse UCI notation to a legal Move, accepting both castling encodings
+   * (e1g1 and king takes rook e1h1). Matches board.parse_uci()
+   */
   parseUci(uci: string): Move {
-    return Move.fromUci(uci);
+    let move = Move.fromUci(uci);
+    if (move.isNull()) return move;
+
+    move = this.toChess960(move);
+    move = this.fromChess960(this.chess960, move.fromSquare, move.toSquare, move.promotion, move.drop);
+
+    if (!this.isLegal(move)) {
+      throw new Error(`Illegal uci: ${uci} in ${this.fen()}`);
+    }
+    return move;
   }
 
   /** Get SAN for a move. Matches board.san() */
   san(move: Move): string {
-    const piece = this.pieces[move.fromSquare];
-    if (!piece) {
+    if (move.isNull()) return '--';
+
+    const pieceType = move.drop ?? this.pieceTypeAt(move.fromSquare);
+    if (pieceType === null) {
       throw new Error(`No piece at ${squareName(move.fromSquare)}`);
     }
 
+    let san = '';
+
     // Castling
-    if (piece.pieceType === KING) {
-      const fileDiff = squareFile(move.toSquare) - squareFile(move.fromSquare);
-      if (fileDiff === 2) return 'O-O';
-      if (fileDiff === -2) return 'O-O-O';
-    }
+    const fileDiff = squareFile(move.toSquare) - squareFile(move.fromSquare);
+    if (move.drop !== null) {
+      san = ['', 'P', 'N', 'B', 'R', 'Q', 'K'][move.drop] + '@' + squareName(move.toSquare);
+    } else if (this.isCastling(move)) {
+      san = fileDiff > 0 ? 'O-O' : 'O-O-O';
+    } else {
+      const toBb = BB_SQUARES[move.toSquare];
+      const capture = (this.occupied & toBb) !== BB_EMPTY ||
+                      (pieceType === PAWN && fileDiff !== 0);
+
+      if (pieceType !== PAWN) {
+        // Piece letter
+        san += ['', '', 'N', 'B', 'R', 'Q', 'K'][pieceType];
+
+        // Disambiguation
+        let others = BB_EMPTY;
+        const fromMask = this.piecesMask(pieceType, this._turn) & ~BB_SQUARES[move.fromSquare];
+        for (const candidate of this.generateLegalMoves(fromMask, toBb)) {
+          others |= BB_SQUARES[candidate.fromSquare];
+        }
 
-    let san = '';
-    
-    // Piece letter
-    if (piece.pieceType !== PAWN) {
-      san += ['', '', 'N', 'B', 'R', 'Q', 'K'][piece.pieceType];
-    }
-
-    // Disambiguation
-    if (piece.pieceType !== PAWN) {
-      let needFile = false;
-      let needRank = false;
-      
-      for (const otherMove of this.legalMoves()) {
-        if (otherMove.toSquare !== move.toSquare) continue;
-        if (otherMove.fromSquare === move.fromSquare) continue;
-        const otherPiece = this.pieces[otherMove.fromSquare];
-        if (!otherPiece || otherPiece.pieceType !== piece.pieceType) continue;
-        
-        if (squareFile(otherMove.fromSquare) === squareFile(move.fromSquare)) {
-          needRank = true;
-        } else {
-          needFile = true;
+        if (others) {
+          let row = false;
+          let column = false;
+
+          if (others & BB_RANKS[squareRank(move.fromSquare)]) {
+            column = true;
+          }
+          if (others & BB_FILES[squareFile(move.fromSquare)]) {
+            row = true;
+          } else {
+            column = true;
+          }
+
+          if (column) san += FILE_NAMES[squareFile(move.fromSquare)];
+          if (row) san += RANK_NAMES[squareRank(move.fromSquare)];
         }
+      } else if (capture) {
+        san += FILE_NAMES[squareFile(move.fromSquare)];
+      }
+
+      // Capture
+      if (capture) {
+        san += 'x';
+      }
+
+      // Destination
+      san += squareName(move.toSquare);
+
+      // Promotion
+      if (move.promotion) {
+        san += '=' + ['', '', 'N', 'B', 'R', 'Q', 'K'][move.promotion];
       }
-      
-      if (needFile) san += FILE_NAMES[squareFile(move.fromSquare)];
-      if (needRank) san += (squareRank(move.fromSquare) + 1).toString();
     }
 
-    // Capture
-    const isCapture = this.pieces[move.toSquare] !== null ||
-                      (piece.pieceType === PAWN && move.toSquare === this._epSquare);
-    if (isCapture) {
-      if (piece.pieceType === PAWN) {
-        san += FILE_NAMES[squareFile(move.fromSquare)];
+    // Check/checkmate (a variant loss counts as mate)
+    this.push(move);
+    const isCheck = this.isCheck();
+    if ((isCheck && this.isCheckmate()) || this.isVariantLoss() || this.isVariantDraw()) {
+      san += '#';
+    } else if (isCheck) {
+      san += '+';
+    }
+    this.pop();
+
+    return san;
+  }
+
+  /**
+   * Get UCI for a move, with castling encoded as king takes rook in
+   * Chess960 mode. Matches board.uci()
+   *
+   * @param chess960 - Override the castling encoding of this board
+   */
+  uci(move: Move, chess960: boolean = this.chess960): string {
+    move = this.toChess960(move);
+    return this.fromChess960(chess960, move.fromSquare, move.toSquare, move.promotion, move.drop).uci();
+  }
+
+  /**
+   * Convert standard castling moves (e1g1) to king takes rook (e1h1).
+   * Matches board._to_chess960()
+   */
+  protected toChess960(move: Move): Move {
+    if (move.fromSquare === E1 && (this.kings & BB_SQUARES[E1])) {
+      if (move.toSquare === G1 && !(this.rooks & BB_SQUARES[G1])) return new Move(E1, H1);
+      if (move.toSquare === C1 && !(this.rooks & BB_SQUARES[C1])) return new Move(E1, A1);
+    } else if (move.fromSquare === E8 && (this.kings & BB_SQUARES[E8])) {
+      if (move.toSquare === G8 && !(this.rooks & BB_SQUARES[G8])) return new Move(E8, H8);
+      if (move.toSquare === C8 && !(this.rooks & BB_SQUARES[C8])) return new Move(E8, A8);
+    }
+    return move;
+  }
+
+  /**
+   * Build a move, converting king takes rook to standard castling
+   * unless chess960 is set. Matches board._from_chess960()
+   */
+  protected fromChess960(
+    chess960: boolean,
+    fromSquare: Square,
+    toSquare: Square,
+    promotion: PieceType | null = null,
+    drop: PieceType | null = null
+  ): Move {
+    if (!chess960 && promotion === null && drop === null) {
+      if (fromSquare === E1 && (this.kings & BB_SQUARES[E1])) {
+        if (toSquare === H1) return new Move(E1, G1);
+        if (toSquare === A1) return new Move(E1, C1);
+      } else if (fromSquare === E8 && (this.kings & BB_SQUARES[E8])) {
+        if (toSquare === H8) return new Move(E8, G8);
+        if (toSquare === A8) return new Move(E8, C8);
       }
-      san += 'x';
     }
+    return new Move(fromSquare, toSquare, promotion, drop);
+  }
+
+  // ==========================================================================
+  // Move Classification (matching python-chess)
+  // ==========================================================================
+
+  /** Does the move capture a piece, including en passant? Matches board.is_capture() */
+  isCapture(move: Move): boolean {
+    const touched = BB_SQUARES[move.fromSquare] ^ BB_SQUARES[move.toSquare];
+    return (touched & this.occupiedCo[Number(!this._turn)]) !== BB_EMPTY || this.isEnPassant(move);
+  }
+
+  /** Is the move an en passant capture? Matches board.is_en_passant() */
+  isEnPassant(move: Move): boolean {
+    const diff = Math.abs(move.toSquare - move.fromSquare);
+    return this._epSquare === move.toSquare &&
+           (this.pawns & BB_SQUARES[move.fromSquare]) !== BB_EMPTY &&
+           (diff === 7 || diff === 9) &&
+           !(this.occupied & BB_SQUARES[move.toSquare]);
+  }
+
+  /** Is the move castling (in either encoding)? Matches board.is_castling() */
+  isCastling(move: Move): boolean {
+    if (this.kings & BB_SQUARES[move.fromSquare]) {
+      const diff = squareFile(move.fromSquare) - squareFile(move.toSquare);
+      return Math.abs(diff) > 1 ||
+             (this.rooks & this.occupiedCo[Number(this._turn)] & BB_SQUARES[move.toSquare]) !== BB_EMPTY;
+    }
+    return false;
+  }
+
+  /** Is the move castling towards the h-file? Matches board.is_kingside_castling() */
+  isKingsideCastling(move: Move): boolean {
+    return this.isCastling(move) && squareFile(move.toSquare) > squareFile(move.fromSquare);
+  }
+
+  /** Is the move castling towards the a-file? Matches board.is_queenside_castling() */
+  isQueensideCastling(move: Move): boolean {
+    return this.isCastling(move) && squareFile(move.toSquare) < squareFile(move.fromSquare);
+  }
+
+  /** Does the (legal) move give check? Matches board.gives_check() */
+  givesCheck(move: Move): boolean {
+    this.push(move);
+    try {
+      return this.isCheck();
+    } finally {
+      this.pop();
+    }
+  }
+
+  /** Does the move capture, move or drop a pawn? Matches board.is_zeroing() */
+  isZeroing(move: Move): boolean {
+    const touched = BB_SQUARES[move.fromSquare] ^ BB_SQUARES[move.toSquare];
+    return (touched & this.pawns) !== BB_EMPTY ||
+           (touched & this.occupiedCo[Number(!this._turn)]) !== BB_EMPTY ||
+           move.drop === PAWN;
+  }
+
+  /**
+   * Can the position before the move never occur again after it?
+   * Matches board.is_irreversible()
+   */
+  isIrreversible(move: Move): boolean {
+    return this.isZeroing(move) || this.reducesCastlingRights(move) || this.hasLegalEnPassant();
+  }
 
-    // Destination
-    san += squareName(move.toSquare);
+  // ==========================================================================
+  // Static Exchange Evaluation
+  // ==========================================================================
 
-    // Promotion
-    if (move.promotion) {
-      san += '=' + ['', '', 'N', 'B', 'R', 'Q'][move.promotion];
+  /**
+   * Material balance in centipawns for the side to move after the move and
+   * the best sequence of recaptures on its target square, where either side
+   * may stop capturing when it would lose material. Attackers come in order
+   * of value, including x-ray attackers behind them on the same line. Pins
+   * are ignored and the king only recaptures an undefended piece.
+   */
+  see(move: Move): number {
+    if (move.isNull() || this.isCastling(move)) return 0;
+
+    const to = move.toSquare;
+    const promotionGain = move.promotion === null ? 0 : PIECE_VALUES[move.promotion] - PIECE_VALUES[PAWN];
+    let occupied = this.occupied;
+    const gain: number[] = [];
+
+    if (this.isEnPassant(move)) {
+      gain.push(PIECE_VALUES[PAWN] + promotionGain);
+      occupied &= ~BB_SQUARES[to + (this._turn === WHITE ? -8 : 8)];
+    } else {
+      const captured = this.pieceTypeAt(to);
+      gain.push((captured === null ? 0 : PIECE_VALUES[captured]) + promotionGain);
     }
 
-    // Check/checkmate
-    const boardCopy = this.copy();
-    boardCopy.push(move);
-    if (boardCopy.isCheck()) {
-      san += boardCopy.isCheckmate() ? '#' : '+';
+    // The piece standing on the target square, next in line to be captured
+    let onSquare = move.promotion ?? move.drop ?? this.pieceTypeAt(move.fromSquare)!;
+    if (move.drop === null) {
+      occupied &= ~BB_SQUARES[move.fromSquare];
     }
+    occupied |= BB_SQUARES[to];
 
-    return san;
+    const byType = [BB_EMPTY, this.pawns, this.knights, this.bishops, this.rooks, this.queens, this.kings];
+    let color = !this._turn;
+
+    for (;;) {
+      const attackers = (this.attackersMask(WHITE, to, occupied) | this.attackersMask(BLACK, to, occupied)) &
+                        occupied & ~BB_SQUARES[to];
+      const ours = attackers & this.occupiedCo[Number(color)];
+      if (!ours) break;
+
+      let pieceType: PieceType = PAWN;
+      while (!(ours & byType[pieceType])) pieceType++;
+      const from = lsb(ours & byType[pieceType]);
+
+      if (pieceType === KING && (attackers & this.occupiedCo[Number(!color)])) break;
+
+      let value = PIECE_VALUES[onSquare] - gain[gain.length - 1];
+      onSquare = pieceType;
+      if (pieceType === PAWN && (BB_SQUARES[to] & BB_BACKRANKS)) {
+        value += PIECE_VALUES[QUEEN] - PIECE_VALUES[PAWN];
+        onSquare = QUEEN;
+      }
+      gain.push(value);
+
+      occupied &= ~BB_SQUARES[from];
+      color = !color;
+    }
+
+    // Either side may stand pat instead of recapturing
+    for (let depth = gain.length - 1; depth > 0; depth--) {
+      gain[depth - 1] = Math.min(gain[depth - 1], -gain[depth]);
+    }
+    return gain[0] + 0; // Not -0
   }
 
-  /** Get UCI for a move. Matches move.uci() */
-  uci(move: Move): string {
-    return move.uci();
+  /** Does the exchange started by the move win at least `threshold` centipawns? */
+  seeGe(move: Move, threshold: number = 0): boolean {
+    return this.see(move) >= threshold;
   }
 
   // ==========================================================================
@@ -454,186 +820,224 @@ export class Board {
   // ==========================================================================
 
   /** Generate all legal moves. Matches board.legal_moves */
-  *legalMoves(): IterableIterator<Move> {
-    for (const move of this.pseudoLegalMoves()) {
-      if (this.isLegalMove(move)) {
-        yield move;
-      }
-    }
+  legalMoves(): IterableIterator<Move> {
+    return this.generateLegalMoves(BB_ALL, BB_ALL);
   }
 
   /** Generate pseudo-legal moves (before checking if king is left in check) */
-  *pseudoLegalMoves(): IterableIterator<Move> {
-    const color = this._turn;
+  pseudoLegalMoves(): IterableIterator<Move> {
+    return this.generatePseudoLegalMoves(BB_ALL, BB_ALL);
+  }
 
-    for (let fromSq = 0; fromSq < 64; fromSq++) {
-      const piece = this.pieces[fromSq];
-      if (!piece || piece.color !== color) continue;
+  /**
+   * Generate legal moves from squares in fromMask to squares in toMask.
+   * Matches board.generate_legal_moves()
+   */
+  *generateLegalMoves(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    if (this.isVariantEnd()) return;
+
+    const kingMask = this.kings & this.occupiedCo[Number(this._turn)];
+    if (!kingMask) {
+      yield* this.generatePseudoLegalMoves(fromMask, toMask);
+      return;
+    }
 
-      switch (piece.pieceType) {
-        case PAWN:
-          yield* this.generatePawnMoves(fromSq, color);
-          break;
-        case KNIGHT:
-          yield* this.generateKnightMoves(fromSq, color);
-          break;
-        case BISHOP:
-          yield* this.generateSlidingMoves(fromSq, color, BISHOP_DIRECTIONS);
-          break;
-        case ROOK:
-          yield* this.generateSlidingMoves(fromSq, color, ROOK_DIRECTIONS);
-          break;
-        case QUEEN:
-          yield* this.generateSlidingMoves(fromSq, color, QUEEN_DIRECTIONS);
-          break;
-        case KING:
-          yield* this.generateKingMoves(fromSq, color);
-          break;
+    const king = msb(kingMask);
+    const blockers = this.sliderBlockers(king);
+    const checkers = this.attackersMask(!this._turn, king);
+
+    const candidates = checkers
+      ? this.generateEvasions(king, checkers, fromMask, toMask)
+      : this.generatePseudoLegalMoves(fromMask, toMask);
+
+    for (const move of candidates) {
+      if (this.isSafe(king, blockers, move)) {
+        yield move;
       }
     }
   }
 
-  private *generatePawnMoves(fromSq: Square, color: Color): IterableIterator<Move> {
-    const file = squareFile(fromSq);
-    const rank = squareRank(fromSq);
-    const direction = color === WHITE ? 1 : -1;
-    const startRank = color === WHITE ? 1 : 6;
-    const promotionRank = color === WHITE ? 7 : 0;
-
-    // Single push
-    const toSq = squareFromFileRank(file, rank + direction);
-    if (this.pieces[toSq] === null) {
-      if (rank + direction === promotionRank) {
-        yield* this.generatePromotions(fromSq, toSq);
-      } else {
-        yield new Move(fromSq, toSq);
-        
-        // Double push
-        if (rank === startRank) {
-          const toSq2 = squareFromFileRank(file, rank + 2 * direction);
-          if (this.pieces[toSq2] === null) {
-            yield new Move(fromSq, toSq2);
-          }
-        }
+  /**
+   * Generate pseudo-legal moves from squares in fromMask to squares in toMask.
+   * Matches board.generate_pseudo_legal_moves()
+   */
+  protected *generatePseudoLegalMoves(fromMask: Bitboard, toMask: Bitboard): IterableIterator<Move> {
+    const us = this.occupiedCo[Number(this._turn)];
+    const them = this.occupiedCo[Number(!this._turn)];
+
+    // Piece moves
+    const nonPawns = us & ~this.pawns & fromMask;
+    for (const fromSquare of scanReverse(nonPawns)) {
+      const moves = this.attacksMask(fromSquare) & ~us & toMask;
+      for (const toSquare of scanReverse(moves)) {
+        yield new Move(fromSquare, toSquare);
       }
     }
 
-    // Captures
-    for (const df of [-1, 1]) {
-      const captureFile = file + df;
-      if (captureFile < 0 || captureFile > 7) continue;
-      
-      const captureSq = squareFromFileRank(captureFile, rank + direction);
-      const targetPiece = this.pieces[captureSq];
-      
-      const isCapture = (targetPiece && targetPiece.color !== color) ||
-                        captureSq === this._epSquare;
-      
-      if (isCapture) {
-        if (rank + direction === promotionRank) {
-          yield* this.generatePromotions(fromSq, captureSq);
-        } else {
-          yield new Move(fromSq, captureSq);
-        }
+    // Castling moves
+    if (fromMask & this.kings) {
+      yield* this.generateCastlingMoves(fromMask, toMask);
+    }
+
+    // The remaining moves are all pawn moves
+    const pawns = this.pawns & us & fromMask;
+    if (!pawns) return;
+
+    // Pawn captures
+    for (const fromSquare of scanReverse(pawns)) {
+      const targets = pawnAttacks(this._turn, fromSquare) & them & toMask;
+      for (const toSquare of scanReverse(targets)) {
+        yield* this.generatePawnMoves(fromSquare, toSquare);
       }
     }
+
+    // Pawn advances
+    let singleMoves: Bitboard;
+    let doubleMoves: Bitboard;
+    if (this._turn === WHITE) {
+      singleMoves = shiftUp(pawns) & ~this.occupied;
+      doubleMoves = shiftUp(singleMoves) & ~this.occupied & (BB_RANK_3 | BB_RANK_4);
+    } else {
+      singleMoves = shiftDown(pawns) & ~this.occupied;
+      doubleMoves = shiftDown(singleMoves) & ~this.occupied & (BB_RANK_6 | BB_RANK_5);
+    }
+
+    const forward = this._turn === WHITE ? 8 : -8;
+    for (const toSquare of scanReverse(singleMoves & toMask)) {
+      yield* this.generatePawnMoves(toSquare - forward, toSquare);
+    }
+    for (const toSquare of scanReverse(doubleMoves & toMask)) {
+      yield new Move(toSquare - 2 * forward, toSquare);
+    }
+
+    // En passant captures
+    yield* this.generatePseudoLegalEp(fromMask, toMask);
+  }
+
+  private *generatePawnMoves(fromSquare: Square, toSquare: Square): IterableIterator<Move> {
+    if (BB_SQUARES[toSquare] & BB_BACKRANKS) {
+      yield new Move(fromSquare, toSquare, QUEEN);
+      yield new Move(fromSquare, toSquare, ROOK);
+      yield new Move(fromSquare, toSquare, BISHOP);
+      yield new Move(fromSquare, toSquare, KNIGHT);
+    } else {
+      yield new Move(fromSquare, toSquare);
+    }
   }
 
-  private *generatePromotions(fromSq: Square, toSq: Square): IterableIterator<Move> {
-    yield new Move(fromSq, toSq, QUEEN);
-    yield new Move(fromSq, toSq, ROOK);
-    yield new Move(fromSq, toSq, BISHOP);
-    yield new Move(fromSq, toSq, KNIGHT);
+  /**
+   * Generate pseudo-legal captures, including en passant.
+   * Matches board.generate_pseudo_legal_captures()
+   */
+  protected *generatePseudoLegalCaptures(fromMask: Bitboard, toMask: Bitboard): IterableIterator<Move> {
+    yield* this.generatePseudoLegalMoves(fromMask, toMask & this.occupiedCo[Number(!this._turn)]);
+    yield* this.generatePseudoLegalEp(fromMask, toMask);
   }
 
-  private *generateKnightMoves(fromSq: Square, color: Color): IterableIterator<Move> {
-    const file = squareFile(fromSq);
-    const rank = squareRank(fromSq);
+  protected *generatePseudoLegalEp(fromMask: Bitboard, toMask: Bitboard): IterableIterator<Move> {
+    const epSquare = this._epSquare;
+    if (epSquare === null || !(BB_SQUARES[epSquare] & toMask)) return;
+    if (BB_SQUARES[epSquare] & this.occupied) return;
 
-    for (const [df, dr] of KNIGHT_MOVES) {
-      const toFile = file + df;
-      const toRank = rank + dr;
-      if (toFile < 0 || toFile > 7 || toRank < 0 || toRank > 7) continue;
+    const capturers = this.pawns & this.occupiedCo[Number(this._turn)] & fromMask &
+                      pawnAttacks(!this._turn, epSquare) &
+                      BB_RANKS[this._turn === WHITE ? 4 : 3];
 
-      const toSq = squareFromFileRank(toFile, toRank);
-      const targetPiece = this.pieces[toSq];
-      if (!targetPiece || targetPiece.color !== color) {
-        yield new Move(fromSq, toSq);
-      }
+    for (const capturer of scanReverse(capturers)) {
+      yield new Move(capturer, epSquare);
     }
   }
 
-  private *generateSlidingMoves(
-    fromSq: Square,
-    color: Color,
-    directions: number[][]
-  ): IterableIterator<Move> {
-    const file = squareFile(fromSq);
-    const rank = squareRank(fromSq);
-
-    for (const [df, dr] of directions) {
-      for (let dist = 1; dist < 8; dist++) {
-        const toFile = file + df * dist;
-        const toRank = rank + dr * dist;
-        if (toFile < 0 || toFile > 7 || toRank < 0 || toRank > 7) break;
+  /**
+   * Generate castling moves for any king and rook placement. The rook square
+   * is matched against toMask. Matches board.generate_castling_moves()
+   */
+  protected *generateCastlingMoves(fromMask: Bitboard, toMask: Bitboard): IterableIterator<Move> {
+    const backrank = this._turn === WHITE ? BB_RANK_1 : BB_RANK_8;
+    let king = this.occupiedCo[Number(this._turn)] & this.kings & ~this.promoted & backrank & fromMask;
+    king &= -king;
+    if (!king) return;
+
+    const kingSquare = msb(king);
+    const rank = squareRank(kingSquare);
+
+    for (const candidate of scanReverse(this.cleanCastlingRights() & backrank & toMask)) {
+      const rook = BB_SQUARES[candidate];
+      const aSide = candidate < kingSquare;
+      const kingTo = squareFromFileRank(aSide ? 2 : 6, rank);
+      const rookTo = squareFromFileRank(aSide ? 3 : 5, rank);
+
+      const kingPath = between(kingSquare, kingTo);
+      const rookPath = between(candidate, rookTo);
+      const landing = BB_SQUARES[kingTo] | BB_SQUARES[rookTo];
+
+      // Only the castling king and rook may stand in the way
+      if ((this.occupied ^ king ^ rook) & (kingPath | rookPath | landing)) continue;
+
+      // The king may not start on, pass through or land on an attacked square
+      if (this.attackedForKing(kingPath | king, this.occupied ^ king)) continue;
+      if (this.attackedForKing(BB_SQUARES[kingTo], this.occupied ^ king ^ rook ^ BB_SQUARES[rookTo])) continue;
+
+      yield this.fromChess960(this.chess960, kingSquare, candidate);
+    }
+  }
 
-        const toSq = squareFromFileRank(toFile, toRank);
-        const targetPiece = this.pieces[toSq];
+  /** Is any square of the king's castling path attacked? Matches board._attacked_for_king() */
+  protected attackedForKing(path: Bitboard, occupied: Bitboard): boolean {
+    for (const square of scanReverse(path)) {
+      if (this.attackersMask(!this._turn, square, occupied)) return true;
+    }
+    return false;
+  }
 
-        if (!targetPiece) {
-          yield new Move(fromSq, toSq);
-        } else {
-          if (targetPiece.color !== color) {
-            yield new Move(fromSq, toSq);
-          }
-          break;
-        }
+  /** Generate legal en passant captures. Matches board.generate_legal_ep() */
+  *generateLegalEp(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    for (const move of this.generatePseudoLegalEp(fromMask, toMask)) {
+      if (!this.isIntoCheck(move)) {
+        yield move;
       }
     }
   }
 
-  private *generateKingMoves(fromSq: Square, color: Color): IterableIterator<Move> {
-    const file = squareFile(fromSq);
-    const rank = squareRank(fromSq);
+  /** Generate legal captures, including en passant. Matches board.generate_legal_captures() */
+  *generateLegalCaptures(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    yield* this.generateLegalMoves(fromMask, toMask & this.occupiedCo[Number(!this._turn)]);
+    yield* this.generateLegalEp(fromMask, toMask);
+  }
+
+  private *generateEvasions(
+    king: Square,
+    checkers: Bitboard,
+    fromMask: Bitboard,
+    toMask: Bitboard
+  ): IterableIterator<Move> {
+    const sliders = checkers & (this.bishops | this.rooks | this.queens);
 
-    // Normal moves
-    for (const [df, dr] of KING_MOVES) {
-      const toFile = file + df;
-      const toRank = rank + dr;
-      if (toFile < 0 || toFile > 7 || toRank < 0 || toRank > 7) continue;
+    // Squares on the line of a sliding checker stay attacked after the king steps back
+    let attacked = BB_EMPTY;
+    for (const checker of scanReverse(sliders)) {
+      attacked |= ray(king, checker) & ~BB_SQUARES[checker];
+    }
 
-      const toSq = squareFromFileRank(toFile, toRank);
-      const targetPiece = this.pieces[toSq];
-      if (!targetPiece || targetPiece.color !== color) {
-        yield new Move(fromSq, toSq);
+    if (BB_SQUARES[king] & fromMask) {
+      const targets = BB_KING_ATTACKS[king] & ~this.occupiedCo[Number(this._turn)] & ~attacked & toMask;
+      for (const toSquare of scanReverse(targets)) {
+        yield new Move(king, toSquare);
       }
     }
 
-    // Castling
-    if (color === WHITE && fromSq === E1) {
-      if ((this._castlingRights & CASTLING_WHITE_KINGSIDE) && 
-          !this.pieces[F1] && !this.pieces[G1]) {
-        if (!this.isAttacked(E1, BLACK) && !this.isAttacked(F1, BLACK)) {
-          yield new Move(E1, G1);
-        }
-      }
-      if ((this._castlingRights & CASTLING_WHITE_QUEENSIDE) &&
-          !this.pieces[D1] && !this.pieces[C1] && !this.pieces[squareFromFileRank(1, 0)]) {
-        if (!this.isAttacked(E1, BLACK) && !this.isAttacked(D1, BLACK)) {
-          yield new Move(E1, C1);
-        }
-      }
-    } else if (color === BLACK && fromSq === E8) {
-      if ((this._castlingRights & CASTLING_BLACK_KINGSIDE) &&
-          !this.pieces[F8] && !this.pieces[G8]) {
-        if (!this.isAttacked(E8, WHITE) && !this.isAttacked(F8, WHITE)) {
-          yield new Move(E8, G8);
-        }
-      }
-      if ((this._castlingRights & CASTLING_BLACK_QUEENSIDE) &&
-          !this.pieces[D8] && !this.pieces[C8] && !this.pieces[squareFromFileRank(1, 7)]) {
-        if (!this.isAttacked(E8, WHITE) && !this.isAttacked(D8, WHITE)) {
-          yield new Move(E8, C8);
+    const checker = msb(checkers);
+    if (BB_SQUARES[checker] === checkers) {
+      // Capture or block a single checker
+      const target = between(king, checker) | checkers;
+      yield* this.generatePseudoLegalMoves(~this.kings & fromMask, target & toMask);
+
+      // Capture the checking pawn en passant (avoiding duplicate moves)
+      const epSquare = this._epSquare;
+      if (epSquare !== null && !(BB_SQUARES[epSquare] & target)) {
+        const lastDouble = epSquare + (this._turn === WHITE ? -8 : 8);
+        if (lastDouble === checker) {
+          yield* this.generatePseudoLegalEp(fromMask, toMask);
         }
       }
     }
@@ -641,97 +1045,259 @@ export class Board {
 
   /** Check if a move is legal */
   isLegal(move: Move): boolean {
-    return this.isLegalMove(move);
+    return !this.isVariantEnd() && this.isPseudoLegal(move) && !this.isIntoCheck(move);
   }
 
-  private isLegalMove(move: Move): boolean {
-    // Make the move on a copy
-    const copy = this.copy();
-    try {
-      copy.push(move);
-    } catch {
-      return false;
+  /** Check if a move is pseudo-legal. Matches board.is_pseudo_legal() */
+  isPseudoLegal(move: Move): boolean {
+    if (move.isNull() || move.drop !== null) return false;
+
+    const pieceType = this.pieceTypeAt(move.fromSquare);
+    if (pieceType === null) return false;
+
+    const fromMask = BB_SQUARES[move.fromSquare];
+    const toMask = BB_SQUARES[move.toSquare];
+    const us = this.occupiedCo[Number(this._turn)];
+
+    if (!(us & fromMask)) return false;
+
+    if (move.promotion !== null) {
+      if (pieceType !== PAWN) return false;
+      if (squareRank(move.toSquare) !== (this._turn === WHITE ? 7 : 0)) return false;
     }
-    
-    // Check if the moving side's king is in check
-    const kingSq = copy.king(!copy._turn);  // The side that just moved
-    if (kingSq !== null && copy.isAttacked(kingSq, copy._turn)) {
+
+    if (pieceType === KING) {
+      const castlingMove = this.fromChess960(this.chess960, move.fromSquare, move.toSquare);
+      for (const castling of this.generateCastlingMoves(BB_ALL, BB_ALL)) {
+        if (castling.equals(castlingMove)) return true;
+      }
+    }
+
+    if (us & toMask) return false;
+
+    if (pieceType === PAWN) {
+      for (const candidate of this.generatePseudoLegalMoves(fromMask, toMask)) {
+        if (candidate.equals(move)) return true;
+      }
       return false;
     }
-    
-    return true;
+
+    return (this.attacksMask(move.fromSquare) & toMask) !== BB_EMPTY;
   }
 
-  /** Check if a square is attacked by a color */
-  isAttacked(square: Square, byColor: Color): boolean {
-    const file = squareFile(square);
-    const rank = squareRank(square);
-
-    // Knight attacks
-    for (const [df, dr] of KNIGHT_MOVES) {
-      const fromFile = file + df;
-      const fromRank = rank + dr;
-      if (fromFile >= 0 && fromFile <= 7 && fromRank >= 0 && fromRank <= 7) {
-        const fromSq = squareFromFileRank(fromFile, fromRank);
-        const piece = this.pieces[fromSq];
-        if (piece && piece.pieceType === KNIGHT && piece.color === byColor) {
-          return true;
+  /** Check if a pseudo-legal move would leave the king in check */
+  protected isIntoCheck(move: Move): boolean {
+    const king = this.king(this._turn);
+    if (king === null) return false;
+
+    const checkers = this.attackersMask(!this._turn, king);
+    if (checkers) {
+      let evasion = false;
+      for (const candidate of this.generateEvasions(
+        king, checkers, BB_SQUARES[move.fromSquare], BB_SQUARES[move.toSquare]
+      )) {
+        if (candidate.equals(move)) {
+          evasion = true;
+          break;
         }
       }
+      if (!evasion) return true;
     }
 
-    // King attacks
-    for (const [df, dr] of KING_MOVES) {
-      const fromFile = file + df;
-      const fromRank = rank + dr;
-      if (fromFile >= 0 && fromFile <= 7 && fromRank >= 0 && fromRank <= 7) {
-        const fromSq = squareFromFileRank(fromFile, fromRank);
-        const piece = this.pieces[fromSq];
-        if (piece && piece.pieceType === KING && piece.color === byColor) {
-          return true;
-        }
+    return !this.isSafe(king, this.sliderBlockers(king), move);
+  }
+
+  /** Was the last move into check, i.e. can the king of the side not to move be captured? */
+  protected wasIntoCheck(): boolean {
+    const king = this.king(!this._turn);
+    return king !== null && this.isAttacked(king, this._turn);
+  }
+
+  /** Check if a pseudo-legal move keeps the king safe, given our pinned pieces */
+  private isSafe(king: Square, blockers: Bitboard, move: Move): boolean {
+    if (move.fromSquare === king) {
+      if (this.isCastling(move)) {
+        return true;  // Castling is validated during generation
       }
+      return !this.isAttacked(move.toSquare, !this._turn);
     }
 
-    // Pawn attacks
-    const pawnRank = byColor === WHITE ? rank - 1 : rank + 1;
-    if (pawnRank >= 0 && pawnRank <= 7) {
-      for (const df of [-1, 1]) {
-        const pawnFile = file + df;
-        if (pawnFile >= 0 && pawnFile <= 7) {
-          const fromSq = squareFromFileRank(pawnFile, pawnRank);
-          const piece = this.pieces[fromSq];
-          if (piece && piece.pieceType === PAWN && piece.color === byColor) {
-            return true;
-          }
-        }
+    if (this.isEnPassant(move)) {
+      return (this.pinMask(this._turn, move.fromSquare) & BB_SQUARES[move.toSquare]) !== BB_EMPTY &&
+             !this.epSkewered(king, move.fromSquare);
+    }
+
+    return !(blockers & BB_SQUARES[move.fromSquare]) ||
+           (ray(move.fromSquare, move.toSquare) & BB_SQUARES[king]) !== BB_EMPTY;
+  }
+
+  /** Our pieces that are the only blocker between our king and an enemy slider */
+  private sliderBlockers(king: Square): Bitboard {
+    const rooksAndQueens = this.rooks | this.queens;
+    const bishopsAndQueens = this.bishops | this.queens;
+
+    const snipers = ((rankAttacks(king, BB_EMPTY) | fileAttacks(king, BB_EMPTY)) & rooksAndQueens) |
+                    (diagAttacks(king, BB_EMPTY) & bishopsAndQueens);
+
+    let blockers = BB_EMPTY;
+    for (const sniper of scanReverse(snipers & this.occupiedCo[Number(!this._turn)])) {
+      const b = between(king, sniper) & this.occupied;
+
+      // Add to blockers if exactly one piece in between
+      if (b && BB_SQUARES[msb(b)] === b) {
+        blockers |= b;
       }
     }
 
-    // Sliding piece attacks (bishop, rook, queen)
-    for (const [df, dr] of QUEEN_DIRECTIONS) {
-      for (let dist = 1; dist < 8; dist++) {
-        const fromFile = file + df * dist;
-        const fromRank = rank + dr * dist;
-        if (fromFile < 0 || fromFile > 7 || fromRank < 0 || fromRank > 7) break;
+    return blockers & this.occupiedCo[Number(this._turn)];
+  }
+
+  /** Would capturing en passant expose our king along the capture rank? */
+  private epSkewered(king: Square, capturer: Square): boolean {
+    const epSquare = this._epSquare!;
+    const lastDouble = epSquare + (this._turn === WHITE ? -8 : 8);
+    const occupancy = (this.occupied & ~BB_SQUARES[lastDouble] & ~BB_SQUARES[capturer]) | BB_SQUARES[epSquare];
+    const them = this.occupiedCo[Number(!this._turn)];
 
-        const fromSq = squareFromFileRank(fromFile, fromRank);
-        const piece = this.pieces[fromSq];
-        if (piece) {
-          if (piece.color === byColor) {
-            const isDiagonal = df !== 0 && dr !== 0;
-            const isStraight = df === 0 || dr === 0;
-            
-            if (piece.pieceType === QUEEN) return true;
-            if (piece.pieceType === BISHOP && isDiagonal) return true;
-            if (piece.pieceType === ROOK && isStraight) return true;
+    // Horizontal attack on the fifth or fourth rank
+    if (rankAttacks(king, occupancy) & them & (this.rooks | this.queens)) {
+      return true;
+    }
+
+    // Diagonal skewers (not possible in a real game, but in set up positions)
+    if (diagAttacks(king, occupancy) & them & (this.bishops | this.queens)) {
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Mask of squares a piece may move along without exposing its king,
+   * or all squares if it is not pinned. Matches board.pin_mask()
+   */
+  pinMask(color: Color, square: Square): Bitboard {
+    const king = this.king(color);
+    if (king === null) return BB_ALL;
+
+    const squareMask = BB_SQUARES[square];
+    const lines: [Bitboard, Bitboard][] = [
+      [fileAttacks(king, BB_EMPTY), this.rooks | this.queens],
+      [rankAttacks(king, BB_EMPTY), this.rooks | this.queens],
+      [diagAttacks(king, BB_EMPTY), this.bishops | this.queens],
+    ];
+
+    for (const [rays, sliders] of lines) {
+      if (rays & squareMask) {
+        const snipers = rays & sliders & this.occupiedCo[Number(!color)];
+        for (const sniper of scanReverse(snipers)) {
+          if ((between(sniper, king) & (this.occupied | squareMask)) === squareMask) {
+            return ray(king, sniper);
           }
-          break;
         }
+        break;
       }
     }
 
-    return false;
+    return BB_ALL;
+  }
+
+  /**
+   * Squares a piece of a color on a square may move along without exposing
+   * its king: the ray through the king and the pinner, or all squares.
+   * Matches board.pin()
+   */
+  pin(color: Color, square: Square): SquareSet {
+    return new SquareSet(this.pinMask(color, square));
+  }
+
+  /** Is the piece on a square pinned to its king? Matches board.is_pinned() */
+  isPinned(color: Color, square: Square): boolean {
+    return this.pinMask(color, square) !== BB_ALL;
+  }
+
+  /** Squares attacked by the piece on a square. Matches board.attacks_mask() */
+  attacksMask(square: Square): Bitboard {
+    const bbSquare = BB_SQUARES[square];
+
+    if (bbSquare & this.pawns) {
+      return pawnAttacks((bbSquare & this.occupiedCo[1]) !== BB_EMPTY, square);
+    } else if (bbSquare & this.knights) {
+      return BB_KNIGHT_ATTACKS[square];
+    } else if (bbSquare & this.kings) {
+      return BB_KING_ATTACKS[square];
+    }
+
+    let attacks = BB_EMPTY;
+    if (bbSquare & (this.bishops | this.queens)) {
+      attacks = diagAttacks(square, this.occupied);
+    }
+    if (bbSquare & (this.rooks | this.queens)) {
+      attacks |= rankAttacks(square, this.occupied) | fileAttacks(square, this.occupied);
+    }
+    return attacks;
+  }
+
+  /** Squares attacked by the piece on a square, empty if there is none. Matches board.attacks() */
+  attacks(square: Square): SquareSet {
+    return new SquareSet(this.attacksMask(square));
+  }
+
+  /**
+   * Pieces of a color attacking a square, optionally with a different
+   * occupancy for sliding pieces. Matches board.attackers_mask()
+   */
+  attackersMask(color: Color, square: Square, occupied: Bitboard = this.occupied): Bitboard {
+    const rankPieces = BB_RANK_MASKS[square] & occupied;
+    const filePieces = BB_FILE_MASKS[square] & occupied;
+    const diagPieces = BB_DIAG_MASKS[square] & occupied;
+
+    const queensAndRooks = this.queens | this.rooks;
+    const queensAndBishops = this.queens | this.bishops;
+
+    const attackers =
+      (BB_KING_ATTACKS[square] & this.kings) |
+      (BB_KNIGHT_ATTACKS[square] & this.knights) |
+      (rankAttacks(square, rankPieces) & queensAndRooks) |
+      (fileAttacks(square, filePieces) & queensAndRooks) |
+      (diagAttacks(square, diagPieces) & queensAndBishops) |
+      (pawnAttacks(!color, square) & this.pawns);
+
+    return attackers & this.occupiedCo[Number(color)];
+  }
+
+  /** Squares with pieces of a color attacking a square. Matches board.attackers() */
+  attackers(color: Color, square: Square): SquareSet {
+    return new SquareSet(this.attackersMask(color, square));
+  }
+
+  /** Check if a square is attacked by a color */
+  isAttacked(square: Square, byColor: Color): boolean {
+    return this.attackersMask(byColor, square) !== BB_EMPTY;
+  }
+
+  /** Pieces giving check to the side to move. Matches board.checkers_mask() */
+  checkersMask(): Bitboard {
+    const king = this.king(this._turn);
+    return king === null ? BB_EMPTY : this.attackersMask(!this._turn, king);
+  }
+
+  /** Squares of the pieces giving check to the side to move. Matches board.checkers() */
+  checkers(): SquareSet {
+    return new SquareSet(this.checkersMask());
+  }
+
+  /** Check if there is a legal en passant capture. Matches board.has_legal_en_passant() */
+  hasLegalEnPassant(): boolean {
+    return this._epSquare !== null && this.generateLegalEp(BB_ALL, BB_ALL).next().done === false;
+  }
+
+  /**
+   * Check if a pawn could capture en passant, ignoring pins.
+   * Matches board.has_pseudo_legal_en_passant()
+   */
+  hasPseudoLegalEnPassant(): boolean {
+    return this.generatePseudoLegalEp(BB_ALL, BB_ALL).next().done === false;
   }
 
   // ==========================================================================
@@ -747,81 +1313,533 @@ export class Board {
   /** Is it checkmate? Matches board.is_checkmate() */
   isCheckmate(): boolean {
     if (!this.isCheck()) return false;
-    for (const _ of this.legalMoves()) {
-      return false;  // Has at least one legal move
-    }
-    return true;
+    return this.legalMoves().next().done === true;
   }
 
   /** Is it stalemate? Matches board.is_stalemate() */
   isStalemate(): boolean {
     if (this.isCheck()) return false;
-    for (const _ of this.legalMoves()) {
-      return false;
-    }
-    return true;
+    return this.legalMoves().next().done === true;
   }
 
-  /** Is the game over? Matches board.is_game_over() */
-  isGameOver(): boolean {
-    // No legal moves
-    for (const _ of this.legalMoves()) {
-      return this._halfmoveClock >= 100;  // 50-move rule only if has moves
+  /**
+   * Is the game over? Matches board.is_game_over()
+   *
+   * @param options.claimDraw - Also end the game on claimable draws
+   */
+  isGameOver(options?: { claimDraw?: boolean }): boolean {
+    return this.outcome(options) !== null;
+  }
+
+  /**
+   * Get the result string ("1-0", "0-1", "1/2-1/2"), or "*" if the game is not over.
+   * Matches board.result()
+   */
+  result(options?: { claimDraw?: boolean }): string {
+    return this.outcome(options)?.result() ?? '*';
+  }
+
+  /**
+   * Check if the game is over due to checkmate, stalemate, insufficient
+   * material, the seventy-five-move rule, fivefold repetition or a variant
+   * end condition. With claimDraw, the fifty-move rule and threefold
+   * repetition also end the game.
+   * Matches board.outcome()
+   */
+  outcome(options?: { claimDraw?: boolean }): Outcome | null {
+    // Variant support
+    if (this.isVariantLoss()) return new Outcome(Termination.VARIANT_LOSS, !this._turn);
+    if (this.isVariantWin()) return new Outcome(Termination.VARIANT_WIN, this._turn);
+    if (this.isVariantDraw()) return new Outcome(Termination.VARIANT_DRAW, null);
+
+    // Normal game end
+    if (this.isCheckmate()) return new Outcome(Termination.CHECKMATE, !this._turn);
+    if (this.isInsufficientMaterial()) return new Outcome(Termination.INSUFFICIENT_MATERIAL, null);
+    if (this.legalMoves().next().done) return new Outcome(Termination.STALEMATE, null);
+
+    // Automatic draws
+    if (this.isSeventyfiveMoves()) return new Outcome(Termination.SEVENTYFIVE_MOVES, null);
+    if (this.isFivefoldRepetition()) return new Outcome(Termination.FIVEFOLD_REPETITION, null);
+
+    // Claimable draws
+    if (options?.claimDraw) {
+      if (this.canClaimFiftyMoves()) return new Outcome(Termination.FIFTY_MOVES, null);
+      if (this.canClaimThreefoldRepetition()) return new Outcome(Termination.THREEFOLD_REPETITION, null);
     }
-    return true;  // No legal moves = game over
+
+    return null;
   }
 
-  /** Check if position has insufficient material */
-  hasInsufficientMaterial(): boolean {
-    // Count pieces
-    let whiteBishops = 0, blackBishops = 0;
-    let whiteKnights = 0, blackKnights = 0;
-    
-    for (let sq = 0; sq < 64; sq++) {
-      const piece = this.pieces[sq];
-      if (!piece) continue;
-      if (piece.pieceType === PAWN || piece.pieceType === ROOK || piece.pieceType === QUEEN) {
-        return false;
+  /** Is the game over due to variant rules? Matches board.is_variant_end() */
+  isVariantEnd(): boolean {
+    return false;
+  }
+
+  /** Has the side to move won by variant rules? Matches board.is_variant_win() */
+  isVariantWin(): boolean {
+    return false;
+  }
+
+  /** Has the side to move lost by variant rules? Matches board.is_variant_loss() */
+  isVariantLoss(): boolean {
+    return false;
+  }
+
+  /** Is the game drawn by variant rules? Matches board.is_variant_draw() */
+  isVariantDraw(): boolean {
+    return false;
+  }
+
+  /**
+   * Check if the current position occurred at least `count` times,
+   * counting only positions since the last irreversible move.
+   * Matches board.is_repetition()
+   */
+  isRepetition(count: number = 3): boolean {
+    // Fast check, based on occupancy only
+    let maybeRepetitions = 1;
+    for (let i = this.stack.length - 1; i >= 0 && maybeRepetitions < count; i--) {
+      const state = this.stack[i].state;
+      if ((state.occupiedWhite | state.occupiedBlack) === this.occupied) {
+        maybeRepetitions++;
+      }
+    }
+    if (maybeRepetitions < count) return false;
+
+    // Check full replay
+    const transpositionKey = this.transpositionKey();
+    const switchyard: Move[] = [];
+    try {
+      for (;;) {
+        if (count <= 1) return true;
+        if (this.stack.length < count - 1) break;
+
+        const move = this.pop()!;
+        switchyard.push(move);
+        if (this.isIrreversible(move)) break;
+
+        if (this.transpositionKey() === transpositionKey) {
+          count--;
+        }
       }
-      if (piece.pieceType === BISHOP) {
-        if (piece.color === WHITE) whiteBishops++;
-        else blackBishops++;
+    } finally {
+      while (switchyard.length > 0) {
+        this.push(switchyard.pop()!);
       }
-      if (piece.pieceType === KNIGHT) {
-        if (piece.color === WHITE) whiteKnights++;
-        else blackKnights++;
+    }
+
+    return false;
+  }
+
+  /** Has the position occurred five times? Matches board.is_fivefold_repetition() */
+  isFivefoldRepetition(): boolean {
+    return this.isRepetition(5);
+  }
+
+  /**
+   * Can the side to move claim a draw by threefold repetition, either
+   * because it already occurred or because a legal move repeats it?
+   * Matches board.can_claim_threefold_repetition()
+   */
+  canClaimThreefoldRepetition(): boolean {
+    const transpositionKey = this.transpositionKey();
+    const transpositions = new Map<string, number>([[transpositionKey, 1]]);
+
+    // Count positions since the last irreversible move
+    const switchyard: Move[] = [];
+    while (this.stack.length > 0) {
+      const move = this.pop()!;
+      switchyard.push(move);
+      if (this.isIrreversible(move)) break;
+
+      const key = this.transpositionKey();
+      transpositions.set(key, (transpositions.get(key) ?? 0) + 1);
+    }
+    while (switchyard.length > 0) {
+      this.push(switchyard.pop()!);
+    }
+
+    // Threefold repetition occurred
+    if (transpositions.get(transpositionKey)! >= 3) return true;
+
+    // The next legal move is a threefold repetition
+    for (const move of [...this.legalMoves()]) {
+      this.push(move);
+      const repeated = (transpositions.get(this.transpositionKey()) ?? 0) >= 2;
+      this.pop();
+      if (repeated) return true;
+    }
+
+    return false;
+  }
+
+  /** Have 75 moves passed without a capture or pawn move? Matches board.is_seventyfive_moves() */
+  isSeventyfiveMoves(): boolean {
+    return this.isHalfmoves(150);
+  }
+
+  /** Have 50 moves passed without a capture or pawn move? Matches board.is_fifty_moves() */
+  isFiftyMoves(): boolean {
+    return this.isHalfmoves(100);
+  }
+
+  /**
+   * Can the side to move claim a draw by the fifty-move rule, either
+   * now or with its next move? Matches board.can_claim_fifty_moves()
+   */
+  canClaimFiftyMoves(): boolean {
+    if (this.isFiftyMoves()) return true;
+
+    if (this._halfmoveClock >= 99) {
+      for (const move of [...this.legalMoves()]) {
+        if (this.isZeroing(move)) continue;
+        this.push(move);
+        const claimable = this.isFiftyMoves();
+        this.pop();
+        if (claimable) return true;
       }
     }
 
-    // K vs K
-    if (whiteBishops + whiteKnights + blackBishops + blackKnights === 0) return true;
-    // K+B vs K or K+N vs K
-    if (whiteBishops + whiteKnights + blackBishops + blackKnights === 1) return true;
-    
     return false;
   }
 
+  /**
+   * Can the side to move claim a draw by the fifty-move rule or by
+   * threefold repetition? Matches board.can_claim_draw()
+   */
+  canClaimDraw(): boolean {
+    return this.canClaimFiftyMoves() || this.canClaimThreefoldRepetition();
+  }
+
+  private isHalfmoves(n: number): boolean {
+    return this._halfmoveClock >= n && this.legalMoves().next().done === false;
+  }
+
+  /** Key identifying a position for repetition purposes (en passant only if legal) */
+  protected transpositionKey(): string {
+    return [
+      this.pawns, this.knights, this.bishops, this.rooks, this.queens, this.kings,
+      this.occupiedCo[1], this.occupiedCo[0],
+      this._turn, this.cleanCastlingRights(),
+      this.hasLegalEnPassant() ? this._epSquare : null,
+    ].join(':');
+  }
+
+  protected reducesCastlingRights(move: Move): boolean {
+    const rights = this.cleanCastlingRights();
+    const touched = BB_SQUARES[move.fromSquare] ^ BB_SQUARES[move.toSquare];
+    return (touched & rights) !== BB_EMPTY ||
+           ((rights & BB_RANK_1) !== BB_EMPTY && (touched & this.kings & ~this.promoted & this.occupiedCo[1]) !== BB_EMPTY) ||
+           ((rights & BB_RANK_8) !== BB_EMPTY && (touched & this.kings & ~this.promoted & this.occupiedCo[0]) !== BB_EMPTY);
+  }
+
   // ==========================================================================
-  // FEN (matching python-chess)
+  // Position Validity (matching python-chess)
   // ==========================================================================
 
-  /** Get FEN string. Matches board.fen() */
-  fen(): string {
-    const parts: string[] = [];
+  /**
+   * Problems with the position as a bitmask of STATUS_* flags, or
+   * STATUS_VALID. Matches board.status()
+   */
+  status(): number {
+    let errors = STATUS_VALID;
+
+    // There must be at least one piece
+    if (!this.occupied) errors |= STATUS_EMPTY;
+
+    // There must be exactly one king of each color
+    if (!(this.occupiedCo[1] & this.kings)) errors |= STATUS_NO_WHITE_KING;
+    if (!(this.occupiedCo[0] & this.kings)) errors |= STATUS_NO_BLACK_KING;
+    if (popcount(this.occupied & this.kings) > 2) errors |= STATUS_TOO_MANY_KINGS;
+
+    // There can not be more than 16 pieces or 8 pawns of any color
+    if (popcount(this.occupiedCo[1]) > 16) errors |= STATUS_TOO_MANY_WHITE_PIECES;
+    if (popcount(this.occupiedCo[0]) > 16) errors |= STATUS_TOO_MANY_BLACK_PIECES;
+    if (popcount(this.occupiedCo[1] & this.pawns) > 8) errors |= STATUS_TOO_MANY_WHITE_PAWNS;
+    if (popcount(this.occupiedCo[0] & this.pawns) > 8) errors |= STATUS_TOO_MANY_BLACK_PAWNS;
+
+    // Pawns can not be on the back rank
+    if (this.pawns & BB_BACKRANKS) errors |= STATUS_PAWNS_ON_BACKRANK;
+
+    if (this._castlingRooks !== this.cleanCastlingRights()) errors |= STATUS_BAD_CASTLING_RIGHTS;
+
+    const validEpSquare = this.validEpSquare();
+    if (this._epSquare !== validEpSquare) errors |= STATUS_INVALID_EP_SQUARE;
+
+    // The side to move can not be giving check
+    if (this.wasIntoCheck()) errors |= STATUS_OPPOSITE_CHECK;
+
+    // More checkers than any legal last move could have produced
+    const ourKings = this.kings & this.occupiedCo[Number(this._turn)] & ~this.promoted;
+    const checkers = this.checkersMask();
+    if (checkers) {
+      const numCheckers = popcount(checkers);
+      if (numCheckers > 2) errors |= STATUS_TOO_MANY_CHECKERS;
+
+      if (validEpSquare !== null) {
+        // Only the double pushed pawn, or a piece it uncovered, can give check
+        const pushedTo = validEpSquare ^ A2;
+        const pushedFrom = validEpSquare ^ A4;
+        const occupiedBefore = (this.occupied & ~BB_SQUARES[pushedTo]) | BB_SQUARES[pushedFrom];
+        if (numCheckers > 1 || (msb(checkers) !== pushedTo && this.attackedForKing(ourKings, occupiedBefore))) {
+          errors |= STATUS_IMPOSSIBLE_CHECK;
+        }
+      } else if (numCheckers > 2 || (numCheckers === 2 && (ray(lsb(checkers), msb(checkers)) & ourKings))) {
+        // Two checkers on one line with the king can not both have been uncovered
+        errors |= STATUS_IMPOSSIBLE_CHECK;
+      }
+    }
 
-    // Piece placement
+    return errors;
+  }
+
+  /** Is the position free of STATUS_* problems? Matches board.is_valid() */
+  isValid(): boolean {
+    return this.status() === STATUS_VALID;
+  }
+
+  /**
+   * The en passant square if the last move could have been a double pawn
+   * push to it, otherwise null. Matches board._valid_ep_square()
+   */
+  private validEpSquare(): Square | null {
+    if (this._epSquare === null) return null;
+
+    const epMask = BB_SQUARES[this._epSquare];
+    const epRank = this._turn === WHITE ? 5 : 2;
+    const pawnMask = this._turn === WHITE ? shiftDown(epMask) : shiftUp(epMask);
+    const startMask = this._turn === WHITE ? shiftUp(epMask) : shiftDown(epMask);
+
+    // The en passant square must be on the third or sixth rank
+    if (squareRank(this._epSquare) !== epRank) return null;
+
+    // The pawn that was pushed must be in front of it
+    if (!(this.pawns & this.occupiedCo[Number(!this._turn)] & pawnMask)) return null;
+
+    // And the squares it passed must be empty
+    if (this.occupied & epMask) return null;
+    if (this.occupied & startMask) return null;
+
+    return this._epSquare;
+  }
+
+  // ==========================================================================
+  // Castling Rights (matching python-chess)
+  // ==========================================================================
+
+  /**
+   * Castling rooks that can actually be used: in standard chess the rooks
+   * on the corners with the king on e1/e8, in Chess960 the outermost rook
+   * on each side of a back rank king. Matches board.clean_castling_rights()
+   */
+  cleanCastlingRights(): Bitboard {
+    // No new castling rights are assigned during a game, so they were cleaned on the first push
+    if (this.stack.length > 0) return this._castlingRooks;
+
+    const castling = this._castlingRooks & this.rooks;
+    let whiteCastling = castling & BB_RANK_1 & this.occupiedCo[1];
+    let blackCastling = castling & BB_RANK_8 & this.occupiedCo[0];
+
+    if (!this.chess960) {
+      // The rooks must be on a1, h1, a8 or h8 and the kings on e1 or e8
+      whiteCastling &= BB_SQUARES[A1] | BB_SQUARES[H1];
+      blackCastling &= BB_SQUARES[A8] | BB_SQUARES[H8];
+      if (!(this.occupiedCo[1] & this.kings & ~this.promoted & BB_SQUARES[E1])) whiteCastling = BB_EMPTY;
+      if (!(this.occupiedCo[0] & this.kings & ~this.promoted & BB_SQUARES[E8])) blackCastling = BB_EMPTY;
+      return whiteCastling | blackCastling;
+    }
+
+    // The kings must be on the back rank, between the castling rooks
+    const kings = this.kings & ~this.promoted;
+    return cleanSide(whiteCastling, this.occupiedCo[1] & kings & BB_RANK_1) |
+           cleanSide(blackCastling, this.occupiedCo[0] & kings & BB_RANK_8);
+  }
+
+  /** Does a color have any castling rights? Matches board.has_castling_rights() */
+  hasCastlingRights(color: Color): boolean {
+    const backrank = color === WHITE ? BB_RANK_1 : BB_RANK_8;
+    return (this.cleanCastlingRights() & backrank) !== BB_EMPTY;
+  }
+
+  /**
+   * Can a color castle on the h-side of its king (now or later)?
+   * Matches board.has_kingside_castling_rights()
+   */
+  hasKingsideCastlingRights(color: Color): boolean {
+    return this.hasCastlingRightsOnSide(color, false);
+  }
+
+  /**
+   * Can a color castle on the a-side of its king (now or later)?
+   * Matches board.has_queenside_castling_rights()
+   */
+  hasQueensideCastlingRights(color: Color): boolean {
+    return this.hasCastlingRightsOnSide(color, true);
+  }
+
+  /**
+   * Are there castling rights that are only possible in Chess960?
+   * Matches board.has_chess960_castling_rights()
+   */
+  hasChess960CastlingRights(): boolean {
+    const chess960 = this.chess960;
+    this.chess960 = true;
+    const rights = this.cleanCastlingRights();
+    this.chess960 = chess960;
+
+    // Standard castling rights can only be on the corners, with the king on e1 or e8
+    if (rights & ~BB_CORNERS) return true;
+    if ((rights & BB_RANK_1) && !(this.occupiedCo[1] & this.kings & BB_SQUARES[E1])) return true;
+    if ((rights & BB_RANK_8) && !(this.occupiedCo[0] & this.kings & BB_SQUARES[E8])) return true;
+    return false;
+  }
+
+  private hasCastlingRightsOnSide(color: Color, aSide: boolean): boolean {
+    const backrank = color === WHITE ? BB_RANK_1 : BB_RANK_8;
+    const kingMask = this.kings & ~this.promoted & this.occupiedCo[Number(color)] & backrank;
+    if (!kingMask) return false;
+
+    const king = msb(kingMask);
+    for (const rook of scanReverse(this.cleanCastlingRights() & backrank)) {
+      if ((rook < king) === aSide) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rook square for one castling character: K/Q/k/q select the outermost
+   * rook on that side of the king, A-H/a-h a rook file (Shredder-FEN).
+   * Matches board.set_castling_fen()
+   */
+  private castlingRookMask(flag: string): Bitboard {
+    const color = flag === flag.toUpperCase();
+    const backrank = color === WHITE ? BB_RANK_1 : BB_RANK_8;
+    const rooks = this.occupiedCo[Number(color)] & this.rooks & backrank;
+    const king = this.king(color);
+    const lower = flag.toLowerCase();
+
+    if (lower === 'q') {
+      // Select the leftmost rook
+      if (king !== null && rooks && lsb(rooks) < king) return rooks & -rooks;
+      return BB_FILES[0] & backrank;
+    }
+    if (lower === 'k') {
+      // Select the rightmost rook
+      if (king !== null && rooks && king < msb(rooks)) return BB_SQUARES[msb(rooks)];
+      return BB_FILES[7] & backrank;
+    }
+    return BB_FILES[FILE_NAMES.indexOf(lower)] & backrank;
+  }
+
+  /** X-FEN castling field: KQkq unless another rook on the same side makes it ambiguous */
+  private castlingXfen(): string {
+    let castling = '';
+    for (const color of [WHITE, BLACK]) {
+      const king = this.king(color);
+      if (king === null) continue;
+
+      const backrank = color === WHITE ? BB_RANK_1 : BB_RANK_8;
+      for (const rookSquare of scanReverse(this.cleanCastlingRights() & backrank)) {
+        const rookFile = squareFile(rookSquare);
+        const aSide = rookFile < squareFile(king);
+        const otherRooks = this.occupiedCo[Number(color)] & this.rooks & backrank & ~BB_SQUARES[rookSquare];
+
+        let ch = aSide ? 'q' : 'k';
+        for (const other of scanReverse(otherRooks)) {
+          if ((squareFile(other) < rookFile) === aSide) {
+            ch = FILE_NAMES[rookFile];
+            break;
+          }
+        }
+        castling += color === WHITE ? ch.toUpperCase() : ch;
+      }
+    }
+    return castling || '-';
+  }
+
+  /** Shredder-FEN castling field: rook files, e.g. HAha */
+  private castlingShredderFen(): string {
+    let castling = '';
+    for (const color of [WHITE, BLACK]) {
+      const backrank = color === WHITE ? BB_RANK_1 : BB_RANK_8;
+      for (const rookSquare of scanReverse(this.cleanCastlingRights() & backrank)) {
+        const ch = FILE_NAMES[squareFile(rookSquare)];
+        castling += color === WHITE ? ch.toUpperCase() : ch;
+      }
+    }
+    return castling || '-';
+  }
+
+  /**
+   * Check if neither side has sufficient winning material.
+   * Matches board.is_insufficient_material()
+   */
+  isInsufficientMaterial(): boolean {
+    return this.hasInsufficientMaterial(WHITE) && this.hasInsufficientMaterial(BLACK);
+  }
+
+  /**
+   * Check if a side has insufficient winning material, i.e. cannot
+   * checkmate even with the most unfortunate play of the opponent.
+   * Without a color, checks both sides (see isInsufficientMaterial()).
+   * Matches board.has_insufficient_material()
+   */
+  hasInsufficientMaterial(color?: Color): boolean {
+    if (color === undefined) {
+      return this.isInsufficientMaterial();
+    }
+
+    const us = this.occupiedCo[Number(color)];
+    const them = this.occupiedCo[Number(!color)];
+
+    if (us & (this.pawns | this.rooks | this.queens)) return false;
+
+    // Knights are only insufficient material if:
+    // (1) We do not have any other pieces, including more than one knight.
+    // (2) The opponent does not have pawns, knights, bishops or rooks.
+    //     These would allow selfmate.
+    if (us & this.knights) {
+      return popcount(us) <= 2 && !(them & ~this.kings & ~this.queens);
+    }
+
+    // Bishops are only insufficient material if:
+    // (1) We do not have any other pieces, including bishops of the
+    //     opposite color.
+    // (2) The opponent does not have bishops of the opposite color,
+    //     pawns or knights. These would allow selfmate.
+    if (us & this.bishops) {
+      const sameColor = !(this.bishops & BB_DARK_SQUARES) || !(this.bishops & BB_LIGHT_SQUARES);
+      return sameColor && !this.pawns && !this.knights;
+    }
+
+    return true;
+  }
+
+  // ==========================================================================
+  // FEN (matching python-chess)
+  // ==========================================================================
+
+  /**
+   * Get the piece placement part of the FEN. Matches board.board_fen()
+   *
+   * @param options.promoted - Mark promoted pieces with ~ (Crazyhouse)
+   */
+  boardFen(options?: { promoted?: boolean }): string {
     const rows: string[] = [];
     for (let rank = 7; rank >= 0; rank--) {
       let row = '';
       let empty = 0;
       for (let file = 0; file < 8; file++) {
-        const piece = this.pieces[squareFromFileRank(file, rank)];
+        const piece = this.pieceAt(squareFromFileRank(file, rank));
         if (piece) {
           if (empty > 0) {
             row += empty.toString();
             empty = 0;
           }
           row += piece.symbol();
+          if (options?.promoted && (this.promoted & BB_SQUARES[squareFromFileRank(file, rank)])) {
+            row += '~';
+          }
         } else {
           empty++;
         }
@@ -829,18 +1847,26 @@ export class Board {
       if (empty > 0) row += empty.toString();
       rows.push(row);
     }
-    parts.push(rows.join('/'));
+    return rows.join('/');
+  }
+
+  /**
+   * Get FEN string, with X-FEN castling rights (plain KQkq in standard
+   * positions). Matches board.fen()
+   *
+   * @param options.shredder - Use Shredder-FEN castling rights (rook files)
+   */
+  fen(options?: { shredder?: boolean }): string {
+    const parts: string[] = [];
+
+    // Piece placement
+    parts.push(this.boardFen());
 
     // Active color
     parts.push(this._turn === WHITE ? 'w' : 'b');
 
     // Castling rights
-    let castling = '';
-    if (this._castlingRights & CASTLING_WHITE_KINGSIDE) castling += 'K';
-    if (this._castlingRights & CASTLING_WHITE_QUEENSIDE) castling += 'Q';
-    if (this._castlingRights & CASTLING_BLACK_KINGSIDE) castling += 'k';
-    if (this._castlingRights & CASTLING_BLACK_QUEENSIDE) castling += 'q';
-    parts.push(castling || '-');
+    parts.push(options?.shredder ? this.castlingShredderFen() : this.castlingXfen());
 
     // En passant
     parts.push(this._epSquare !== null ? squareName(this._epSquare) : '-');
@@ -854,115 +1880,378 @@ export class Board {
     return parts.join(' ');
   }
 
-  /** Set position from FEN. Matches board.set_fen() */
-  setFen(fen: string): void {
-    const parts = fen.split(/\s+/);
-    if (parts.length < 1) {
-      throw new Error(`Invalid FEN: ${fen}`);
-    }
+  /** Get FEN string with Shredder-FEN castling rights. Matches board.shredder_fen() */
+  shredderFen(): string {
+    return this.fen({ shredder: true });
+  }
 
-    // Clear the board
-    this.pieces.fill(null);
-    this.moveStack = [];
+  /**
+   * Set position from FEN. Castling rights may be KQkq, X-FEN or
+   * Shredder-FEN. Matches board.set_fen()
+   *
+   * Missing or invalid fields are replaced by their defaults and the
+   * repairs are returned. With options.strict the first problem throws a
+   * FenError instead. A piece placement without 8 ranks or with unknown
+   * characters always throws, and leaves the board unchanged.
+   */
+  setFen(fen: string, options?: { strict?: boolean }): FenNormalization[] {
+    const normalizations: FenNormalization[] = [];
+    const normalize = (field: FenField, offset: number, problem: string, repair: string) => {
+      normalizations.push(fenNormalization(field, offset, problem, repair, options?.strict));
+    };
+    const missing = (field: FenField, description: string, assumed: string) => {
+      normalize(field, fen.length, `missing ${description}`, `assuming '${assumed}'`);
+    };
+
+    const fields = fenFields(fen);
+    if (fields.length === 0) {
+      throw new FenError('fen', 0, 'empty FEN');
+    }
+    const [placementField, turnField, castlingField, epField, halfmoveField, fullmoveField] = fields;
 
     // Parse piece placement
-    const rows = parts[0].split('/');
+    const rows = placementField.text.split('/');
     if (rows.length !== 8) {
-      throw new Error(`Invalid FEN: ${fen}`);
+      throw new FenError('board', placementField.offset, `expected 8 ranks, got ${rows.length}`);
     }
 
+    const placed: { square: Square; piece: Piece; promoted: boolean }[] = [];
+    let rowOffset = placementField.offset;
     for (let rank = 7; rank >= 0; rank--) {
       const row = rows[7 - rank];
       let file = 0;
-      for (const c of row) {
+      let previous: string | null = null;
+      let lastPlaced: typeof placed[number] | null = null;
+
+      for (let i = 0; i < row.length; i++) {
+        const c = row[i];
         if (c >= '1' && c <= '8') {
+          if (previous !== null && previous >= '1' && previous <= '8') {
+            normalize('board', rowOffset + i, 'consecutive empty square counts', 'added up');
+          }
           file += parseInt(c);
-        } else {
-          const piece = Piece.fromSymbol(c);
-          this.pieces[squareFromFileRank(file, rank)] = piece;
+          lastPlaced = null;
+        } else if (c === '~') {
+          // The previous piece was promoted
+          if (lastPlaced !== null) {
+            lastPlaced.promoted = true;
+          } else {
+            normalize('board', rowOffset + i, "'~' does not follow a piece", 'ignored');
+          }
+          lastPlaced = null;
+        } else if (/^[pnbrqk]$/i.test(c)) {
+          lastPlaced = null;
+          if (file < 8) {
+            lastPlaced = { square: squareFromFileRank(file, rank), piece: Piece.fromSymbol(c), promoted: false };
+            placed.push(lastPlaced);
+          }
           file++;
+        } else {
+          throw new FenError('board', rowOffset + i, `invalid character '${c}'`);
         }
+        previous = c;
+      }
+
+      if (file > 8) {
+        normalize('board', rowOffset, `rank ${rank + 1} has ${file} squares`, 'extra squares ignored');
+      } else if (file < 8) {
+        normalize('board', rowOffset, `rank ${rank + 1} has ${file} squares`, 'filled up with empty squares');
       }
+      rowOffset += row.length + 1;
     }
 
     // Active color
-    this._turn = parts.length > 1 && parts[1] === 'b' ? BLACK : WHITE;
+    let turn = WHITE;
+    if (!turnField) {
+      missing('turn', 'side to move', 'w');
+    } else if (turnField.text === 'b') {
+      turn = BLACK;
+    } else if (turnField.text !== 'w') {
+      normalize('turn', turnField.offset, `invalid side to move '${turnField.text}'`, "assuming 'w'");
+    }
 
     // Castling rights
-    this._castlingRights = 0;
-    if (parts.length > 2 && parts[2] !== '-') {
-      for (const c of parts[2]) {
-        if (c === 'K') this._castlingRights |= CASTLING_WHITE_KINGSIDE;
-        if (c === 'Q') this._castlingRights |= CASTLING_WHITE_QUEENSIDE;
-        if (c === 'k') this._castlingRights |= CASTLING_BLACK_KINGSIDE;
-        if (c === 'q') this._castlingRights |= CASTLING_BLACK_QUEENSIDE;
+    const castlingFlags: string[] = [];
+    if (!castlingField) {
+      missing('castling', 'castling rights', '-');
+    } else if (castlingField.text !== '-') {
+      for (let i = 0; i < castlingField.text.length; i++) {
+        const c = castlingField.text[i];
+        if (/[KQA-Hkqa-h]/.test(c)) {
+          castlingFlags.push(c);
+        } else {
+          normalize('castling', castlingField.offset + i, `invalid castling character '${c}'`, 'ignored');
+        }
       }
     }
 
     // En passant
-    this._epSquare = null;
-    if (parts.length > 3 && parts[3] !== '-') {
-      this._epSquare = parseSquare(parts[3]);
+    let epSquare: Square | null = null;
+    if (!epField) {
+      missing('epSquare', 'en passant square', '-');
+    } else if (epField.text !== '-') {
+      epSquare = parseSquare(epField.text);
+      if (epSquare === null) {
+        normalize('epSquare', epField.offset, `invalid en passant square '${epField.text}'`, "assuming '-'");
+      }
     }
 
     // Halfmove clock
-    this._halfmoveClock = parts.length > 4 ? parseInt(parts[4]) || 0 : 0;
+    let halfmoveClock = 0;
+    if (!halfmoveField) {
+      missing('halfmoveClock', 'halfmove clock', '0');
+    } else if (/^\d+$/.test(halfmoveField.text)) {
+      halfmoveClock = parseInt(halfmoveField.text);
+    } else {
+      normalize('halfmoveClock', halfmoveField.offset, `invalid halfmove clock '${halfmoveField.text}'`, "assuming '0'");
+    }
 
     // Fullmove number
-    this._fullmoveNumber = parts.length > 5 ? parseInt(parts[5]) || 1 : 1;
+    let fullmoveNumber = 1;
+    if (!fullmoveField) {
+      missing('fullmoveNumber', 'fullmove number', '1');
+    } else if (/^\d+$/.test(fullmoveField.text) && parseInt(fullmoveField.text) > 0) {
+      fullmoveNumber = parseInt(fullmoveField.text);
+    } else {
+      normalize('fullmoveNumber', fullmoveField.offset, `invalid fullmove number '${fullmoveField.text}'`, "assuming '1'");
+    }
+
+    for (const extra of fields.slice(6)) {
+      normalize('fen', extra.offset, `unexpected field '${extra.text}'`, 'ignored');
+    }
+
+    // Set up the board
+    this.clearPieces();
+    this.stack = [];
+    for (const { square, piece, promoted } of placed) {
+      this.setPieceTypeAt(square, piece.pieceType, piece.color, promoted);
+    }
+
+    this._turn = turn;
+    this._castlingRooks = BB_EMPTY;
+    for (const flag of castlingFlags) {
+      this._castlingRooks |= this.castlingRookMask(flag);
+    }
+    this._epSquare = epSquare;
+    this._halfmoveClock = halfmoveClock;
+    this._fullmoveNumber = fullmoveNumber;
+
+    if (this._turn === WHITE) {
+      this._zobristKey ^= ZOBRIST_TURN_KEY;
+    }
+    return normalizations;
+  }
+
+  // ==========================================================================
+  // Chess960 Starting Positions (matching python-chess)
+  // ==========================================================================
+
+  /**
+   * Create a Chess960 starting position from its Scharnagl number (0-959).
+   * 518 is the standard starting position. Matches Board.from_chess960_pos()
+   */
+  static fromChess960Pos(scharnagl: number): Board {
+    const board = new this(null, { chess960: true });
+    board.setChess960Pos(scharnagl);
+    return board;
+  }
+
+  /**
+   * Set up a Chess960 starting position from its Scharnagl number (0-959),
+   * with castling rights for all rooks. Matches board.set_chess960_pos()
+   */
+  setChess960Pos(scharnagl: number): void {
+    if (!Number.isInteger(scharnagl) || scharnagl < 0 || scharnagl > 959) {
+      throw new Error(`Chess960 position index not 0 <= ${scharnagl} <= 959`);
+    }
+
+    const backrank = chess960Backrank(scharnagl);
+    this.clear();
+    for (let file = 0; file < 8; file++) {
+      this.setPieceTypeAt(squareFromFileRank(file, 0), backrank[file], WHITE);
+      this.setPieceTypeAt(squareFromFileRank(file, 1), PAWN, WHITE);
+      this.setPieceTypeAt(squareFromFileRank(file, 6), PAWN, BLACK);
+      this.setPieceTypeAt(squareFromFileRank(file, 7), backrank[file], BLACK);
+    }
+
+    this.chess960 = true;
+    this._castlingRooks = this.rooks;
+  }
+
+  /**
+   * Get the Scharnagl number of a Chess960 starting position, or null if
+   * this is not one. Matches board.chess960_pos()
+   *
+   * @param options.ignoreTurn - Also accept black to move
+   * @param options.ignoreCastling - Accept missing castling rights
+   * @param options.ignoreCounters - Accept any move counters (default true)
+   */
+  chess960Pos(options?: {
+    ignoreTurn?: boolean;
+    ignoreCastling?: boolean;
+    ignoreCounters?: boolean;
+  }): number | null {
+    if (this._epSquare !== null) return null;
+    if (!options?.ignoreTurn && this._turn !== WHITE) return null;
+    if (!options?.ignoreCastling && this.cleanCastlingRights() !== this.rooks) return null;
+    if (!(options?.ignoreCounters ?? true) && (this._fullmoveNumber !== 1 || this._halfmoveClock !== 0)) {
+      return null;
+    }
+
+    if (this.occupiedCo[1] !== (BB_RANK_1 | BB_RANK_2)) return null;
+    if (this.occupiedCo[0] !== (BB_RANK_7 | BB_RANK_8)) return null;
+    if (this.pawns !== (BB_RANK_2 | BB_RANK_7)) return null;
+
+    // Piece counts and symmetry
+    const brnqk = [this.bishops, this.rooks, this.knights, this.queens, this.kings];
+    const counts = [4, 4, 4, 2, 2];
+    for (let i = 0; i < brnqk.length; i++) {
+      if (popcount(brnqk[i]) !== counts[i]) return null;
+      if ((brnqk[i] & BB_RANK_1) << 56n !== (brnqk[i] & BB_RANK_8)) return null;
+    }
+
+    // Algorithm from ChessX, as in python-chess
+    const lightBishops = this.bishops & 0xAAn;
+    const darkBishops = this.bishops & 0x55n;
+    if (!lightBishops || !darkBishops) return null;
+    let ccPos = (lsb(lightBishops) - 1) / 2 + lsb(darkBishops) * 2;
+
+    let q = 0;
+    let queenFound = false;
+    let n0 = 0;
+    let n1 = 0;
+    let n0Found = false;
+    let n1Found = false;
+    let rooksFound = 0;
+
+    for (let square = A1; square <= H1; square++) {
+      const bb = BB_SQUARES[square];
+      if (bb & this.queens) {
+        queenFound = true;
+      } else if (bb & (this.rooks | this.kings)) {
+        if (bb & this.kings) {
+          if (rooksFound !== 1) return null;
+        } else {
+          rooksFound++;
+        }
+        if (!queenFound) q++;
+        if (!n0Found) n0++;
+        else if (!n1Found) n1++;
+      } else if (bb & this.knights) {
+        if (!queenFound) q++;
+        if (!n0Found) n0Found = true;
+        else if (!n1Found) n1Found = true;
+      }
+    }
+
+    if (n0 < 4 && n1Found && queenFound) {
+      const krn = [0, 4, 7, 9][n0] + n1;
+      return ccPos + q * 16 + krn * 96;
+    }
+    return null;
+  }
+
+  // ==========================================================================
+  // Hashing
+  // ==========================================================================
+
+  /**
+   * Polyglot Zobrist hash of the position.
+   * Matches python-chess chess.polyglot.zobrist_hash(board)
+   */
+  zobristHash(): bigint {
+    let key = this._zobristKey ^ zobristCastlingKey(this.castlingRights);
+    if (this._epSquare !== null && this.hasPseudoLegalEnPassant()) {
+      key ^= zobristEpKey(this._epSquare);
+    }
+    return key;
   }
 
   // ==========================================================================
   // Copying and State
   // ==========================================================================
 
-  /** Create a copy. Matches board.copy() */
-  copy(): Board {
-    const copy = new Board();
-    copy.pieces = [...this.pieces];
-    copy._turn = this._turn;
-    copy._castlingRights = this._castlingRights;
-    copy._epSquare = this._epSquare;
-    copy._halfmoveClock = this._halfmoveClock;
-    copy._fullmoveNumber = this._fullmoveNumber;
-    // Don't copy move stack
+  /**
+   * Create a copy. Matches board.copy()
+   *
+   * @param stack - Copy the move stack (true), only the last n moves, or none (false)
+   */
+  copy(stack: boolean | number = true): this {
+    const copy = new (this.constructor as new (fen: string | null) => this)(null);
+    copy.chess960 = this.chess960;
+    copy.restoreState(this.saveState());
+    if (stack !== false) {
+      copy.stack = stack === true ? [...this.stack] : this.stack.slice(Math.max(0, this.stack.length - stack));
+    }
     return copy;
   }
 
-  private saveState(): BoardState {
+  protected saveState(): BoardState {
     return {
+      pawns: this.pawns,
+      knights: this.knights,
+      bishops: this.bishops,
+      rooks: this.rooks,
+      queens: this.queens,
+      kings: this.kings,
+      occupiedWhite: this.occupiedCo[1],
+      occupiedBlack: this.occupiedCo[0],
+      promoted: this.promoted,
       turn: this._turn,
-      castlingRights: this._castlingRights,
+      castlingRooks: this._castlingRooks,
       epSquare: this._epSquare,
       halfmoveClock: this._halfmoveClock,
       fullmoveNumber: this._fullmoveNumber,
-      pieces: [...this.pieces],
+      zobristKey: this._zobristKey,
     };
   }
 
-  private restoreState(state: BoardState): void {
+  protected restoreState(state: BoardState): void {
+    this.pawns = state.pawns;
+    this.knights = state.knights;
+    this.bishops = state.bishops;
+    this.rooks = state.rooks;
+    this.queens = state.queens;
+    this.kings = state.kings;
+    this.occupiedCo = [state.occupiedBlack, state.occupiedWhite];
+    this.occupied = state.occupiedWhite | state.occupiedBlack;
+    this.promoted = state.promoted;
     this._turn = state.turn;
-    this._castlingRights = state.castlingRights;
+    this._castlingRooks = state.castlingRooks;
     this._epSquare = state.epSquare;
     this._halfmoveClock = state.halfmoveClock;
     this._fullmoveNumber = state.fullmoveNumber;
-    this.pieces = [...state.pieces];
+    this._zobristKey = state.zobristKey;
+  }
+
+  private clearPieces(): void {
+    this.pawns = BB_EMPTY;
+    this.knights = BB_EMPTY;
+    this.bishops = BB_EMPTY;
+    this.rooks = BB_EMPTY;
+    this.queens = BB_EMPTY;
+    this.kings = BB_EMPTY;
+    this.occupiedCo = [BB_EMPTY, BB_EMPTY];
+    this.occupied = BB_EMPTY;
+    this.promoted = BB_EMPTY;
+    this._zobristKey = 0n;
   }
 
   /** Clear the board */
   clear(): void {
-    this.pieces.fill(null);
+    this.clearPieces();
     this._turn = WHITE;
-    this._castlingRights = 0;
+    this._castlingRooks = BB_EMPTY;
     this._epSquare = null;
     this._halfmoveClock = 0;
     this._fullmoveNumber = 1;
-    this.moveStack = [];
+    this._zobristKey = ZOBRIST_TURN_KEY;
+    this.stack = [];
   }
 
   /** Reset to starting position */
   reset(): void {
-    this.setFen(STARTING_FEN);
+    this.setFen((this.constructor as typeof Board).startingFen);
   }
 
   /** String representation of the board */
@@ -971,7 +2260,7 @@ export class Board {
     for (let rank = 7; rank >= 0; rank--) {
       let line = '';
       for (let file = 0; file < 8; file++) {
-        const piece = this.pieces[squareFromFileRank(file, rank)];
+        const piece = this.pieceAt(squareFromFileRank(file, rank));
         line += piece ? piece.symbol() : '.';
         line += ' ';
       }
@@ -981,12 +2270,77 @@ export class Board {
   }
 }
 
-interface BoardState {
+/**
+ * Back rank piece types (a-h) of a Chess960 starting position.
+ * See http://www.russellcottrell.com/Chess/Chess960.htm for the algorithm.
+ */
+function chess960Backrank(scharnagl: number): PieceType[] {
+  const backrank: (PieceType | null)[] = [null, null, null, null, null, null, null, null];
+  let n = scharnagl;
+  const bw = n % 4; n = Math.floor(n / 4);
+  const bb = n % 4; n = Math.floor(n / 4);
+  const q = n % 6; n = Math.floor(n / 6);
+
+  // Knight placement among the remaining five files
+  let n1 = 0;
+  let n2 = 0;
+  for (n1 = 0; n1 < 4; n1++) {
+    n2 = n + (3 - n1) * (4 - n1) / 2 - 5;
+    if (n1 < n2 && n2 >= 1 && n2 <= 4) break;
+  }
+
+  // Bishops on opposite colors
+  backrank[bw * 2 + 1] = BISHOP;
+  backrank[bb * 2] = BISHOP;
+
+  // Queen on the q-th free file
+  const free = () => backrank.flatMap((piece, file) => piece === null ? [file] : []);
+  backrank[free()[q]] = QUEEN;
+
+  // Knights
+  const [knight1, knight2] = [free()[n1], free()[n2]];
+  backrank[knight1] = KNIGHT;
+  backrank[knight2] = KNIGHT;
+
+  // Rook, king, rook on the remaining files
+  const [rook1, king, rook2] = free();
+  backrank[rook1] = ROOK;
+  backrank[king] = KING;
+  backrank[rook2] = ROOK;
+
+  return backrank as PieceType[];
+}
+
+/**
+ * Keep the outermost castling rook on each side of the king, dropping
+ * rights where the king is missing or not between the rooks.
+ */
+function cleanSide(castling: Bitboard, kingMask: Bitboard): Bitboard {
+  if (!kingMask || !castling) return BB_EMPTY;
+
+  const king = msb(kingMask);
+  let aSide = castling & -castling;
+  let hSide = BB_SQUARES[msb(castling)];
+  if (msb(aSide) > king) aSide = BB_EMPTY;
+  if (msb(hSide) < king) hSide = BB_EMPTY;
+  return aSide | hSide;
+}
+
+/** Snapshot of the position, saved on the move stack. Variants extend it. */
+export interface BoardState {
+  pawns: Bitboard;
+  knights: Bitboard;
+  bishops: Bitboard;
+  rooks: Bitboard;
+  queens: Bitboard;
+  kings: Bitboard;
+  occupiedWhite: Bitboard;
+  occupiedBlack: Bitboard;
+  promoted: Bitboard;
   turn: Color;
-  castlingRights: number;
+  castlingRooks: Bitboard;
   epSquare: Square | null;
   halfmoveClock: number;
   fullmoveNumber: number;
-  pieces: (Piece | null)[];
+  zobristKey: bigint;
 }
-
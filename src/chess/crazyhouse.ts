@@ -0,0 +1,298 @@
+/**
+ * Crazyhouse variant matching python-chess chess.variant.CrazyhouseBoard
+ *
+ * Captured pieces go to the capturer's pocket and can be dropped back
+ * onto the board instead of making a normal move.
+ */
+
+import {
+  Color, PieceType, Square,
+  WHITE, BLACK,
+  PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING,
+  BB_EMPTY, BB_ALL,
+  STATUS_TOO_MANY_WHITE_PIECES, STATUS_TOO_MANY_BLACK_PIECES,
+  STATUS_TOO_MANY_WHITE_PAWNS, STATUS_TOO_MANY_BLACK_PAWNS,
+} from './types';
+import { Bitboard, BB_SQUARES, BB_BACKRANKS, msb, popcount, between, scanForward } from './bitboard';
+import { Board, BoardState } from './board';
+import { Move } from './move';
+import { Piece } from './piece';
+import { SquareSet } from './square-set';
+import { FenError, FenNormalization, fenFields, blankFen } from './fen';
+
+/**
+ * Pieces in hand for one side.
+ * Matches python-chess chess.variant.CrazyhousePocket class.
+ */
+export class CrazyhousePocket {
+  // Counts indexed by piece type (index 0 unused)
+  private counts: number[] = [0, 0, 0, 0, 0, 0, 0];
+
+  /** Create a pocket from piece symbols, e.g. "qnp" */
+  constructor(symbols: string = '') {
+    for (const symbol of symbols) {
+      this.add(Piece.fromSymbol(symbol).pieceType);
+    }
+  }
+
+  /** Add a piece of the given type */
+  add(pieceType: PieceType): void {
+    this.counts[pieceType]++;
+  }
+
+  /** Remove a piece of the given type, throwing if there is none */
+  remove(pieceType: PieceType): void {
+    if (this.counts[pieceType] === 0) {
+      throw new Error(`No ${new Piece(pieceType, WHITE).symbol()} in pocket`);
+    }
+    this.counts[pieceType]--;
+  }
+
+  /** Number of pieces of the given type */
+  count(pieceType: PieceType): number {
+    return this.counts[pieceType];
+  }
+
+  /** Remove all pieces */
+  reset(): void {
+    this.counts = [0, 0, 0, 0, 0, 0, 0];
+  }
+
+  /** Total number of pieces */
+  get size(): number {
+    return this.counts.reduce((a, b) => a + b, 0);
+  }
+
+  /** Piece symbols, most valuable first (e.g. "qnpp") */
+  toString(): string {
+    let result = '';
+    for (const pieceType of [KING, QUEEN, ROOK, BISHOP, KNIGHT, PAWN] as PieceType[]) {
+      result += new Piece(pieceType, BLACK).symbol().repeat(this.counts[pieceType]);
+    }
+    return result;
+  }
+
+  /** Create a copy */
+  copy(): CrazyhousePocket {
+    const copy = new CrazyhousePocket();
+    copy.counts = [...this.counts];
+    return copy;
+  }
+}
+
+/**
+ * Crazyhouse board with pockets and drop moves.
+ * Matches python-chess chess.variant.CrazyhouseBoard class.
+ */
+export class CrazyhouseBoard extends Board {
+  static aliases = ['Crazyhouse', 'Crazy House', 'House', 'ZH'];
+  static uciVariant = 'crazyhouse';
+  static xboardVariant = 'crazyhouse';
+  static startingFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1';
+
+  /** Pockets indexed by Number(color): [black, white] */
+  pockets!: [CrazyhousePocket, CrazyhousePocket];
+
+  constructor(fen?: string | null, options?: { chess960?: boolean }) {
+    super(null, options);
+    this.pockets = [new CrazyhousePocket(), new CrazyhousePocket()];
+    if (fen !== null) {
+      this.setFen(fen ?? CrazyhouseBoard.startingFen);
+    }
+  }
+
+  // ==========================================================================
+  // Moves
+  // ==========================================================================
+
+  /** Apply a move, taking dropped pieces from the pocket */
+  push(move: Move): void {
+    super.push(move);
+    if (move.drop !== null) {
+      this.pockets[Number(!this._turn)].remove(move.drop);
+    }
+  }
+
+  protected pushCapture(move: Move, captureSquare: Square, pieceType: PieceType, wasPromoted: boolean): void {
+    // Promoted pieces go back to the pocket as pawns
+    this.pockets[Number(this._turn)].add(wasPromoted ? PAWN : pieceType);
+  }
+
+  isPseudoLegal(move: Move): boolean {
+    if (move.drop !== null && move.fromSquare === move.toSquare) {
+      return move.drop !== KING &&
+             !(BB_SQUARES[move.toSquare] & this.occupied) &&
+             !(move.drop === PAWN && (BB_SQUARES[move.toSquare] & BB_BACKRANKS)) &&
+             this.pockets[Number(this._turn)].count(move.drop) > 0;
+    }
+    return super.isPseudoLegal(move);
+  }
+
+  isLegal(move: Move): boolean {
+    if (move.drop !== null) {
+      return this.isPseudoLegal(move) && (this.legalDropSquaresMask() & BB_SQUARES[move.toSquare]) !== BB_EMPTY;
+    }
+    return super.isLegal(move);
+  }
+
+  *generateLegalMoves(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    yield* super.generateLegalMoves(fromMask, toMask);
+    yield* this.generateLegalDrops(fromMask & toMask);
+  }
+
+  /** Generate drops ignoring checks. Matches board.generate_pseudo_legal_drops() */
+  protected *generatePseudoLegalDrops(toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    const pocket = this.pockets[Number(this._turn)];
+    for (const toSquare of scanForward(toMask & ~this.occupied)) {
+      for (const pieceType of [PAWN, KNIGHT, BISHOP, ROOK, QUEEN] as PieceType[]) {
+        if (!pocket.count(pieceType)) continue;
+        if (pieceType === PAWN && (BB_SQUARES[toSquare] & BB_BACKRANKS)) continue;
+        yield new Move(toSquare, toSquare, null, pieceType);
+      }
+    }
+  }
+
+  /** Generate legal drops. Matches board.generate_legal_drops() */
+  protected generateLegalDrops(toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    return this.generatePseudoLegalDrops(this.legalDropSquaresMask() & toMask);
+  }
+
+  /**
+   * Empty squares where a drop would not leave the king in check: all of
+   * them, only blocking squares of a single slider check, or none.
+   * Matches board.legal_drop_squares_mask()
+   */
+  protected legalDropSquaresMask(): Bitboard {
+    const king = this.king(this._turn);
+    if (king === null) return ~this.occupied & BB_ALL;
+
+    const kingAttackers = this.attackersMask(!this._turn, king);
+    if (!kingAttackers) {
+      return ~this.occupied & BB_ALL;
+    } else if (popcount(kingAttackers) === 1) {
+      return between(king, msb(kingAttackers)) & ~this.occupied;
+    }
+    return BB_EMPTY;
+  }
+
+  /** Squares where a piece could be legally dropped. Matches board.legal_drop_squares() */
+  legalDropSquares(): SquareSet {
+    return new SquareSet(this.legalDropSquaresMask());
+  }
+
+  // ==========================================================================
+  // Game End and Repetitions
+  // ==========================================================================
+
+  /** Only castling rights can be lost for good, all other material returns as drops */
+  isIrreversible(move: Move): boolean {
+    return this.reducesCastlingRights(move);
+  }
+
+  protected transpositionKey(): string {
+    return [super.transpositionKey(), this.promoted, this.pockets[1], this.pockets[0]].join(':');
+  }
+
+  /** Material never leaves the game, so this only covers bare kings with minor pieces */
+  hasInsufficientMaterial(color?: Color): boolean {
+    if (color === undefined) {
+      return this.isInsufficientMaterial();
+    }
+
+    const pockets = this.pockets;
+    const inPockets = (pieceType: PieceType) => pockets[0].count(pieceType) + pockets[1].count(pieceType);
+    return popcount(this.occupied) + pockets[0].size + pockets[1].size <= 3 &&
+           !this.promoted && !this.pawns && !this.rooks && !this.queens &&
+           !inPockets(PAWN) && !inPockets(ROOK) && !inPockets(QUEEN);
+  }
+
+  /** Captured pieces change sides, so only the totals on board and in hand are limited */
+  status(): number {
+    let status = super.status();
+    const [black, white] = this.pockets;
+
+    if (popcount(this.pawns) + white.count(PAWN) + black.count(PAWN) <= 16) {
+      status &= ~(STATUS_TOO_MANY_WHITE_PAWNS | STATUS_TOO_MANY_BLACK_PAWNS);
+    }
+    if (popcount(this.occupied) + white.size + black.size <= 32) {
+      status &= ~(STATUS_TOO_MANY_WHITE_PIECES | STATUS_TOO_MANY_BLACK_PIECES);
+    }
+    return status;
+  }
+
+  // ==========================================================================
+  // FEN
+  // ==========================================================================
+
+  /** Piece placement, marking promoted pieces with ~ by default */
+  boardFen(options?: { promoted?: boolean }): string {
+    return super.boardFen({ promoted: options?.promoted ?? true });
+  }
+
+  /** FEN with pockets, e.g. "rnbqkbnr/.../RNBQKBNR[Qp] w KQkq - 0 1" */
+  fen(options?: { shredder?: boolean }): string {
+    const [boardPart, ...infoParts] = super.fen(options).split(' ');
+    const pockets = `[${this.pockets[1].toString().toUpperCase()}${this.pockets[0]}]`;
+    return [boardPart + pockets, ...infoParts].join(' ');
+  }
+
+  /** Set position from FEN, with the pockets in brackets or as a ninth rank */
+  setFen(fen: string, options?: { strict?: boolean }): FenNormalization[] {
+    const placement = fenFields(fen)[0];
+    if (!placement) {
+      throw new FenError('fen', 0, 'empty FEN');
+    }
+
+    // Find the pockets, after the last "[" or after the eighth rank in lichess style
+    let pocketStart = -1;
+    let pocketEnd = placement.text.length;
+    if (placement.text.endsWith(']')) {
+      pocketStart = placement.text.indexOf('[');
+      if (pocketStart === -1 || placement.text.indexOf('[', pocketStart + 1) !== -1) {
+        throw new FenError('pockets', placement.offset + placement.text.length - 1, "unbalanced '[' and ']'");
+      }
+      pocketEnd--;
+    } else if (placement.text.split('/').length === 9) {
+      pocketStart = placement.text.lastIndexOf('/');
+    }
+
+    const pocketPart = pocketStart === -1 ? '' : placement.text.slice(pocketStart + 1, pocketEnd);
+    for (let i = 0; i < pocketPart.length; i++) {
+      if (!/[pnbrqk]/i.test(pocketPart[i])) {
+        throw new FenError('pockets', placement.offset + pocketStart + 1 + i, `invalid piece in pocket '${pocketPart[i]}'`);
+      }
+    }
+
+    const white = [...pocketPart].filter(c => c !== c.toLowerCase()).join('');
+    const black = [...pocketPart].filter(c => c === c.toLowerCase()).join('');
+    const pockets: [CrazyhousePocket, CrazyhousePocket] = [new CrazyhousePocket(black), new CrazyhousePocket(white)];
+
+    const boardFen = pocketStart === -1 ? fen : blankFen(fen, placement.offset + pocketStart, placement.text.length - pocketStart);
+    const normalizations = super.setFen(boardFen, options);
+    this.pockets = pockets;
+    return normalizations;
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  clear(): void {
+    super.clear();
+    this.pockets = [new CrazyhousePocket(), new CrazyhousePocket()];
+  }
+
+  protected saveState(): CrazyhouseBoardState {
+    return { ...super.saveState(), pockets: [this.pockets[0].copy(), this.pockets[1].copy()] };
+  }
+
+  protected restoreState(state: BoardState): void {
+    super.restoreState(state);
+    const pockets = (state as CrazyhouseBoardState).pockets;
+    this.pockets = [pockets[0].copy(), pockets[1].copy()];
+  }
+}
+
+interface CrazyhouseBoardState extends BoardState {
+  pockets: [CrazyhousePocket, CrazyhousePocket];
+}
@@ -0,0 +1,90 @@
+/**
+ * FEN parse errors and normalizations
+ *
+ * Board.setFen() either throws a FenError for the first problem (strict
+ * mode) or repairs what it can and returns a list of FenNormalizations
+ * (lenient mode, the default).
+ */
+
+/**
+ * Part of a FEN string. The names follow the Board properties they set;
+ * 'fen' is the string as a whole, 'pockets' and 'remainingChecks' are the
+ * Crazyhouse and Three-check extensions.
+ */
+export type FenField =
+  | 'fen'
+  | 'board'
+  | 'turn'
+  | 'castling'
+  | 'epSquare'
+  | 'halfmoveClock'
+  | 'fullmoveNumber'
+  | 'pockets'
+  | 'remainingChecks';
+
+/** A problem that lenient parsing repaired */
+export interface FenNormalization {
+  /** Field the problem is in */
+  field: FenField;
+
+  /** Character offset into the FEN string */
+  offset: number;
+
+  /** What was wrong and what was assumed instead */
+  message: string;
+}
+
+/**
+ * Invalid FEN, naming the field and character offset of the problem.
+ */
+export class FenError extends Error {
+  /** Field the problem is in */
+  readonly field: FenField;
+
+  /** Character offset into the FEN string */
+  readonly offset: number;
+
+  constructor(field: FenField, offset: number, message: string) {
+    super(`Invalid FEN: ${message} (${field} at offset ${offset})`);
+    this.name = 'FenError';
+    this.field = field;
+    this.offset = offset;
+  }
+}
+
+/**
+ * Report a problem that can be repaired: throw it in strict mode, otherwise
+ * return it with the repair for the list of normalizations.
+ */
+export function fenNormalization(
+  field: FenField,
+  offset: number,
+  problem: string,
+  repair: string,
+  strict: boolean = false
+): FenNormalization {
+  if (strict) {
+    throw new FenError(field, offset, problem);
+  }
+  return { field, offset, message: `${problem}, ${repair}` };
+}
+
+/** Whitespace separated fields of a FEN string with their offsets */
+export function fenFields(fen: string): { text: string; offset: number }[] {
+  const fields: { text: string; offset: number }[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(fen)) !== null) {
+    fields.push({ text: match[0], offset: match.index });
+  }
+  return fields;
+}
+
+/**
+ * Replace part of a FEN string with spaces, so that variants can remove
+ * their extensions before the standard fields are parsed without shifting
+ * the offsets of later problems.
+ */
+export function blankFen(fen: string, offset: number, length: number): string {
+  return fen.slice(0, offset) + ' '.repeat(length) + fen.slice(offset + length);
+}
@@ -0,0 +1,104 @@
+/**
+ * Horde variant matching python-chess chess.variant.HordeBoard
+ *
+ * White has a horde of 36 pawns and no king, black has the usual army.
+ * Black wins by capturing the whole horde, white by checkmating. Pawns on
+ * the first rank may advance two squares, like from the second rank.
+ */
+
+import {
+  Color, BLACK, BB_EMPTY,
+  STATUS_NO_WHITE_KING, STATUS_TOO_MANY_KINGS, STATUS_PAWNS_ON_BACKRANK,
+  STATUS_TOO_MANY_WHITE_PIECES, STATUS_TOO_MANY_WHITE_PAWNS,
+} from './types';
+import { BB_RANK_1, BB_RANK_8, BB_LIGHT_SQUARES, BB_DARK_SQUARES, popcount } from './bitboard';
+import { Board } from './board';
+
+/**
+ * Horde board.
+ * Matches python-chess chess.variant.HordeBoard class.
+ */
+export class HordeBoard extends Board {
+  static aliases = ['Horde', 'Horde chess'];
+  static uciVariant = 'horde';
+  static xboardVariant = 'horde';
+  static startingFen = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+
+  /** A side has lost all its pieces */
+  isVariantEnd(): boolean {
+    return !this.occupiedCo[0] || !this.occupiedCo[1];
+  }
+
+  isVariantDraw(): boolean {
+    return this.occupied === BB_EMPTY;
+  }
+
+  /** We have lost all our pieces */
+  isVariantLoss(): boolean {
+    return this.occupied !== BB_EMPTY && !this.occupiedCo[Number(this._turn)];
+  }
+
+  /** The opponent has lost all its pieces */
+  isVariantWin(): boolean {
+    return this.occupied !== BB_EMPTY && !this.occupiedCo[Number(!this._turn)];
+  }
+
+  /**
+   * Black can always win by capturing the horde. The horde is only
+   * considered insufficient against a bare king, where it needs more than
+   * two minor pieces (or a rook and a bishop) without the help of black's
+   * own pieces boxing in the king.
+   */
+  hasInsufficientMaterial(color?: Color): boolean {
+    if (color === undefined) {
+      return this.isInsufficientMaterial();
+    }
+    if (color === BLACK) return false;
+
+    const white = this.occupiedCo[1];
+    if (!white) return true;
+    if (popcount(this.occupiedCo[0]) > 1) return false;
+
+    const pawns = popcount(white & this.pawns);
+    const knights = popcount(white & this.knights);
+    const bishops = popcount(white & this.bishops);
+    const rooks = popcount(white & this.rooks);
+    const queens = popcount(white & this.queens);
+
+    // Two bishops of the same color cover all squares of that color around the king
+    const darkBishops = popcount(white & this.bishops & BB_DARK_SQUARES);
+    const lightBishops = popcount(white & this.bishops & BB_LIGHT_SQUARES);
+    const hordeNum = pawns + knights + rooks + queens + Math.min(darkBishops, 2) + Math.min(lightBishops, 2);
+
+    if (hordeNum >= 4) return false;
+    if ((pawns || queens) && hordeNum >= 2) return false;
+    if (rooks && hordeNum >= 2 && !(hordeNum === 2 && rooks === 1 && bishops === 1)) return false;
+
+    if (hordeNum === 3) {
+      // Two knights and a bishop, three knights or the bishop pair and a minor piece mate in the corner
+      const bishopPair = darkBishops > 0 && lightBishops > 0;
+      return !((knights === 2 && bishops === 1) || knights === 3 || bishopPair);
+    }
+
+    // A lone piece or two minor pieces can not mate a bare king
+    return true;
+  }
+
+  /**
+   * White has no king but up to 36 pieces, and white pawns may stand on
+   * the first rank
+   */
+  status(): number {
+    let status = super.status() & ~STATUS_NO_WHITE_KING;
+    if (popcount(this.occupiedCo[1]) <= 36) {
+      status &= ~(STATUS_TOO_MANY_WHITE_PIECES | STATUS_TOO_MANY_WHITE_PAWNS);
+    }
+    if (!(this.pawns & BB_RANK_8) && !(this.occupiedCo[0] & this.pawns & BB_RANK_1)) {
+      status &= ~STATUS_PAWNS_ON_BACKRANK;
+    }
+    if (this.occupiedCo[1] & this.kings) {
+      status |= STATUS_TOO_MANY_KINGS;
+    }
+    return status;
+  }
+}
@@ -4,9 +4,40 @@
 
 // Types and constants
 export * from './types';
+export * from './bitboard';
 
 // Classes
 export { Move } from './move';
 export { Piece } from './piece';
 export { Board } from './board';
+export { CrazyhouseBoard, CrazyhousePocket } from './crazyhouse';
+export { AtomicBoard } from './atomic';
+export { AntichessBoard } from './antichess';
+export { KingOfTheHillBoard } from './king-of-the-hill';
+export { ThreeCheckBoard } from './three-check';
+export { RacingKingsBoard } from './racing-kings';
+export { HordeBoard } from './horde';
+export { SquareSet, IntoSquareSet } from './square-set';
+export { Outcome, Termination } from './outcome';
+export { FenError, FenField, FenNormalization } from './fen';
 
+// Variants
+export { VARIANTS, VariantBoard, findVariant } from './variant';
+
+// Move generation testing
+export { perft, divide } from './perft';
+
+// Problem solving
+export { solveMate, MateSolution } from './mate';
+
+// Move suggestions
+export { search, evaluate, SearchOptions, SearchResult } from './search';
+
+// Hashing
+export { POLYGLOT_RANDOM_ARRAY, zobristHash } from './zobrist';
+
+// Opening books
+export {
+  PolyglotReader, PolyglotEntry, PolyglotFindOptions, PolyglotChoiceOptions, openReader,
+  PolyglotBookOptions, buildPolyglotBook,
+} from './polyglot';
@@ -0,0 +1,40 @@
+/**
+ * King of the Hill variant matching python-chess chess.variant.KingOfTheHillBoard
+ *
+ * Standard chess, but bringing the king to one of the center squares
+ * d4, e4, d5 or e5 wins immediately.
+ */
+
+import { Color, BB_EMPTY } from './types';
+import { BB_CENTER } from './bitboard';
+import { Board } from './board';
+
+/**
+ * King of the Hill board.
+ * Matches python-chess chess.variant.KingOfTheHillBoard class.
+ */
+export class KingOfTheHillBoard extends Board {
+  static aliases = ['King of the Hill', 'KOTH', 'kingOfTheHill'];
+  static uciVariant = 'kingofthehill';
+  static xboardVariant = 'kingofthehill';
+
+  /** A king has reached the center */
+  isVariantEnd(): boolean {
+    return (this.kings & BB_CENTER) !== BB_EMPTY;
+  }
+
+  /** Our king has reached the center */
+  isVariantWin(): boolean {
+    return (this.kings & this.occupiedCo[Number(this._turn)] & BB_CENTER) !== BB_EMPTY;
+  }
+
+  /** The opponent's king has reached the center */
+  isVariantLoss(): boolean {
+    return (this.kings & this.occupiedCo[Number(!this._turn)] & BB_CENTER) !== BB_EMPTY;
+  }
+
+  /** A bare king can still walk to the center */
+  hasInsufficientMaterial(color?: Color): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Mate-in-N solver for verifying chess problems and puzzles
+ *
+ * A depth-limited search over the legal moves, without an engine. The side
+ * to move is the attacker; a move "mates" when SAN would mark it with '#',
+ * so variant wins (exploding the king, three checks, ...) count as mate.
+ */
+
+import type { Board } from './board';
+import type { Move } from './move';
+
+/** Result of solveMate() */
+export interface MateSolution {
+  /** Length of the fastest forced mate in moves, or null if there is none within n */
+  mateIn: number | null;
+
+  /** First moves that force mate in at most n moves, fastest first */
+  keyMoves: Move[];
+
+  /**
+   * Every line from a key move to mate: all defences, each followed by
+   * every attacking move that still forces mate in time
+   */
+  lines: Move[][];
+
+  /** Key moves after the first, which make the problem unsound */
+  cooks: Move[];
+}
+
+/** The side to move has lost, as marked by '#' in SAN */
+function isMated(board: Board): boolean {
+  return board.isCheckmate() || board.isVariantLoss();
+}
+
+/** Can the side to move force mate in at most n moves? */
+function forcesMate(board: Board, n: number): boolean {
+  if (n < 1 || board.isVariantEnd()) return false;
+
+  for (const move of [...board.legalMoves()]) {
+    board.push(move);
+    const mates = defenceFails(board, n - 1);
+    board.pop();
+    if (mates) return true;
+  }
+  return false;
+}
+
+/** Is the side to move mated, or mated in at most n more attacking moves whatever it does? */
+function defenceFails(board: Board, n: number): boolean {
+  if (isMated(board)) return true;
+  if (n < 1 || board.isVariantEnd()) return false;
+
+  // Stalemate is a successful defence
+  const replies = [...board.legalMoves()];
+  if (replies.length === 0) return false;
+
+  for (const reply of replies) {
+    board.push(reply);
+    const mates = forcesMate(board, n);
+    board.pop();
+    if (!mates) return false;
+  }
+  return true;
+}
+
+/** Lines from the defending side to move to mate, with at most n attacking moves */
+function defenceLines(board: Board, n: number): Move[][] {
+  if (isMated(board)) return [[]];
+
+  const lines: Move[][] = [];
+  for (const reply of [...board.legalMoves()]) {
+    board.push(reply);
+    for (const line of attackLines(board, n)) {
+      lines.push([reply, ...line]);
+    }
+    board.pop();
+  }
+  return lines;
+}
+
+/** Lines from the attacking side to move to mate in at most n moves */
+function attackLines(board: Board, n: number): Move[][] {
+  const lines: Move[][] = [];
+  for (const move of [...board.legalMoves()]) {
+    board.push(move);
+    if (defenceFails(board, n - 1)) {
+      for (const line of defenceLines(board, n - 1)) {
+        lines.push([move, ...line]);
+      }
+    }
+    board.pop();
+  }
+  return lines;
+}
+
+/**
+ * Find every way for the side to move to force mate in at most n moves.
+ * The board is restored before returning.
+ *
+ * The search is exhaustive, so its cost grows with the number of legal
+ * moves to the power of 2n - 1; it is meant for problems up to mate in
+ * three or four.
+ */
+export function solveMate(board: Board, n: number): MateSolution {
+  const found: { move: Move; mateIn: number }[] = [];
+
+  if (n >= 1 && !board.isVariantEnd()) {
+    for (const move of [...board.legalMoves()]) {
+      board.push(move);
+      for (let mateIn = 1; mateIn <= n; mateIn++) {
+        if (defenceFails(board, mateIn - 1)) {
+          found.push({ move, mateIn });
+          break;
+        }
+      }
+      board.pop();
+    }
+  }
+
+  // Stable, so moves with mates of equal length keep the generation order
+  found.sort((a, b) => a.mateIn - b.mateIn);
+
+  const lines: Move[][] = [];
+  for (const { move, mateIn } of found) {
+    board.push(move);
+    for (const line of defenceLines(board, mateIn - 1)) {
+      lines.push([move, ...line]);
+    }
+    board.pop();
+  }
+
+  const keyMoves = found.map(({ move }) => move);
+  return {
+    mateIn: found.length > 0 ? found[0].mateIn : null,
+    keyMoves,
+    lines,
+    cooks: keyMoves.slice(1),
+  };
+}
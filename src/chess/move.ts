@@ -2,7 +2,7 @@
  * Move class matching python-chess chess.Move
  */
 
-import { Square, PieceType, parseSquare, squareName, QUEEN, KNIGHT, ROOK, BISHOP } from './types';
+import { Square, PieceType, parseSquare, squareName, QUEEN, KNIGHT, ROOK, BISHOP, KING } from './types';
 
 /**
  * Represents a chess move.
@@ -38,6 +38,10 @@ export class Move {
    * Matches python-chess move.uci()
    */
   uci(): string {
+    if (this.isNull()) {
+      return '0000';
+    }
+
     if (this.drop !== null) {
       // Crazyhouse drop
       const pieceSymbol = ['', 'P', 'N', 'B', 'R', 'Q', 'K'][this.drop];
@@ -47,7 +51,7 @@ export class Move {
     let result = squareName(this.fromSquare) + squareName(this.toSquare);
     
     if (this.promotion !== null) {
-      result += ['', '', 'n', 'b', 'r', 'q'][this.promotion];
+      result += ['', '', 'n', 'b', 'r', 'q', 'k'][this.promotion];
     }
     
     return result;
@@ -76,7 +80,7 @@ export class Move {
         throw new Error(`Invalid UCI move: ${uci}`);
       }
       const pieceType = ['', 'P', 'N', 'B', 'R', 'Q', 'K'].indexOf(pieceSymbol) as PieceType;
-      return new Move(0, toSquare, null, pieceType);
+      return new Move(toSquare, toSquare, null, pieceType);
     }
 
     const fromName = uci.slice(0, 2);
@@ -97,6 +101,7 @@ export class Move {
         'b': BISHOP,
         'r': ROOK,
         'q': QUEEN,
+        'k': KING,
       };
       promotion = promotionMap[promotionChar] ?? null;
       if (promotion === null) {
@@ -0,0 +1,65 @@
+/**
+ * Game outcome classes matching python-chess chess.Outcome and chess.Termination
+ */
+
+import { Color, WHITE } from './types';
+
+/**
+ * How a game ended.
+ * Matches python-chess chess.Termination enum.
+ */
+export enum Termination {
+  /** See Board.isCheckmate() */
+  CHECKMATE = 'checkmate',
+  /** See Board.isStalemate() */
+  STALEMATE = 'stalemate',
+  /** See Board.isInsufficientMaterial() */
+  INSUFFICIENT_MATERIAL = 'insufficient_material',
+  /** See Board.isSeventyfiveMoves() */
+  SEVENTYFIVE_MOVES = 'seventyfive_moves',
+  /** See Board.isFivefoldRepetition() */
+  FIVEFOLD_REPETITION = 'fivefold_repetition',
+  /** See Board.canClaimFiftyMoves() */
+  FIFTY_MOVES = 'fifty_moves',
+  /** See Board.canClaimThreefoldRepetition() */
+  THREEFOLD_REPETITION = 'threefold_repetition',
+  /** See Board.isVariantWin() */
+  VARIANT_WIN = 'variant_win',
+  /** See Board.isVariantLoss() */
+  VARIANT_LOSS = 'variant_loss',
+  /** See Board.isVariantDraw() */
+  VARIANT_DRAW = 'variant_draw',
+}
+
+/**
+ * Information about the outcome of an ended game.
+ * Matches python-chess chess.Outcome class.
+ */
+export class Outcome {
+  /** The reason for the game to have ended */
+  readonly termination: Termination;
+
+  /** The winning color, or null for a draw */
+  readonly winner: Color | null;
+
+  constructor(termination: Termination, winner: Color | null) {
+    this.termination = termination;
+    this.winner = winner;
+  }
+
+  /**
+   * Get the result string: "1-0", "0-1" or "1/2-1/2".
+   * Matches python-chess outcome.result()
+   */
+  result(): string {
+    if (this.winner === null) return '1/2-1/2';
+    return this.winner === WHITE ? '1-0' : '0-1';
+  }
+
+  /**
+   * String representation.
+   */
+  toString(): string {
+    return `Outcome(${this.termination}, ${this.result()})`;
+  }
+}
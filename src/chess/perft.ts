@@ -0,0 +1,45 @@
+/**
+ * Perft move path enumeration for testing move generation
+ *
+ * Counts the leaf nodes of the legal move tree up to a given depth, to be
+ * compared against known node counts (see chessprogramming.org/Perft_Results).
+ */
+
+import type { Board } from './board';
+
+/**
+ * Count the positions reachable in exactly `depth` legal moves.
+ * The board is restored before returning.
+ */
+export function perft(board: Board, depth: number): number {
+  if (depth < 1) return 1;
+
+  // Collect first, since the generator reads the board while we push
+  const moves = [...board.legalMoves()];
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    board.push(move);
+    nodes += perft(board, depth - 1);
+    board.pop();
+  }
+  return nodes;
+}
+
+/**
+ * Perft split by root move, keyed by UCI like the "go perft" output of
+ * engines, to find the move where a count goes wrong.
+ */
+export function divide(board: Board, depth: number): Map<string, number> {
+  const result = new Map<string, number>();
+  if (depth < 1) return result;
+
+  for (const move of [...board.legalMoves()]) {
+    const uci = board.uci(move);
+    board.push(move);
+    result.set(uci, perft(board, depth - 1));
+    board.pop();
+  }
+  return result;
+}
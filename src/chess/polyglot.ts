@@ -0,0 +1,323 @@
+/**
+ * Polyglot opening books matching python-chess chess.polyglot
+ *
+ * A book is a list of 16 byte entries sorted by the Polyglot Zobrist key
+ * of the position: key (8 bytes), move (2), weight (2) and learn (4), all
+ * big-endian. Castling moves are stored as king takes rook (e1h1).
+ *
+ * Books can be read with openReader() and built from PGN games with
+ * buildPolyglotBook().
+ */
+
+import type { Board } from './board';
+import type { GameNode } from '../pgn/game-node';
+import type { Game } from '../pgn/game';
+import { Move } from './move';
+import { Color, PieceType, WHITE, BLACK } from './types';
+
+const ENTRY_SIZE = 16;
+
+/** A book entry. Matches chess.polyglot.Entry */
+export interface PolyglotEntry {
+  /** Polyglot Zobrist key of the position */
+  key: bigint;
+
+  /** Move as stored in the book */
+  rawMove: number;
+
+  /** Weight, usually proportional to how often the move was played or how well it scored */
+  weight: number;
+
+  /** Learning data, unused by most books */
+  learn: number;
+
+  /** The move, normalized for the board it was looked up for */
+  move: Move;
+}
+
+/** Filters for PolyglotReader lookups */
+export interface PolyglotFindOptions {
+  /** Skip entries with a lower weight (default 1) */
+  minimumWeight?: number;
+
+  /** Skip entries with these moves */
+  excludeMoves?: Move[];
+}
+
+/** Options for the random choices of PolyglotReader */
+export interface PolyglotChoiceOptions extends PolyglotFindOptions {
+  /** Random number generator in [0, 1), defaults to Math.random */
+  random?: () => number;
+}
+
+/**
+ * Reader for the entries of a Polyglot opening book.
+ * Matches chess.polyglot.MemoryMappedReader
+ */
+export class PolyglotReader {
+  /** Book contents */
+  private readonly view: DataView;
+
+  constructor(data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /** Number of entries in the book */
+  get length(): number {
+    return Math.floor(this.view.byteLength / ENTRY_SIZE);
+  }
+
+  /** Key of the entry at an index */
+  private keyAt(index: number): bigint {
+    return this.view.getBigUint64(index * ENTRY_SIZE);
+  }
+
+  /** Entry at an index, with the move decoded but not normalized for a board */
+  entryAt(index: number): PolyglotEntry {
+    if (index < 0 || index >= this.length) {
+      throw new RangeError(`Entry index ${index} out of range`);
+    }
+
+    const offset = index * ENTRY_SIZE;
+    const rawMove = this.view.getUint16(offset + 8);
+    const toSquare = rawMove & 0x3f;
+    const fromSquare = (rawMove >> 6) & 0x3f;
+    const promotionPart = (rawMove >> 12) & 0x7;
+    let promotion = promotionPart ? (promotionPart + 1) as PieceType : null;
+
+    // Piece drops (an extension for Crazyhouse books)
+    let drop: PieceType | null = null;
+    if (fromSquare === toSquare) {
+      drop = promotion;
+      promotion = null;
+    }
+
+    return {
+      key: this.keyAt(index),
+      rawMove,
+      weight: this.view.getUint16(offset + 10),
+      learn: this.view.getUint32(offset + 12),
+      move: new Move(fromSquare, toSquare, promotion, drop),
+    };
+  }
+
+  /** Index of the first entry with a key not less than the given one */
+  private bisect(key: bigint): number {
+    let lo = 0;
+    let hi = this.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.keyAt(mid) < key) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
+
+  /**
+   * Iterate over the entries for a position, skipping moves that are not
+   * legal on the board. Castling is converted to the board's encoding.
+   * Matches MemoryMappedReader.find_all()
+   */
+  *findAll(board: Board, options?: PolyglotFindOptions): IterableIterator<PolyglotEntry> {
+    const minimumWeight = options?.minimumWeight ?? 1;
+    const excludeMoves = options?.excludeMoves ?? [];
+    const key = board.zobristHash();
+
+    for (let index = this.bisect(key); index < this.length && this.keyAt(index) === key; index++) {
+      const entry = this.entryAt(index);
+      if (entry.weight < minimumWeight) continue;
+
+      let move: Move;
+      try {
+        move = board.parseUci(entry.move.uci());
+      } catch {
+        continue;
+      }
+      if (excludeMoves.some(excluded => excluded.equals(move))) continue;
+
+      yield { ...entry, move };
+    }
+  }
+
+  /**
+   * The entry with the highest weight (the first of equal ones).
+   * Matches MemoryMappedReader.find()
+   *
+   * @throws Error if there is no entry for the position
+   */
+  find(board: Board, options?: PolyglotFindOptions): PolyglotEntry {
+    const entry = this.get(board, options);
+    if (entry === null) {
+      throw new Error(`No book entry for ${board.fen()}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Like find(), but null if there is no entry for the position.
+   * Matches MemoryMappedReader.get()
+   */
+  get(board: Board, options?: PolyglotFindOptions): PolyglotEntry | null {
+    let best: PolyglotEntry | null = null;
+    for (const entry of this.findAll(board, options)) {
+      if (best === null || entry.weight > best.weight) {
+        best = entry;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * A uniformly random entry for the position.
+   * Matches MemoryMappedReader.choice()
+   *
+   * @throws Error if there is no entry for the position
+   */
+  choice(board: Board, options?: PolyglotChoiceOptions): PolyglotEntry {
+    const entries = [...this.findAll(board, options)];
+    if (entries.length === 0) {
+      throw new Error(`No book entry for ${board.fen()}`);
+    }
+    const random = options?.random ?? Math.random;
+    return entries[Math.floor(random() * entries.length)];
+  }
+
+  /**
+   * A random entry for the position, chosen with probability proportional
+   * to its weight. Matches MemoryMappedReader.weighted_choice()
+   *
+   * @throws Error if there is no entry with a weight for the position
+   */
+  weightedChoice(board: Board, options?: PolyglotChoiceOptions): PolyglotEntry {
+    const entries = [...this.findAll(board, options)];
+    const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    if (totalWeight === 0) {
+      throw new Error(`No book entry for ${board.fen()}`);
+    }
+
+    const random = options?.random ?? Math.random;
+    const choice = Math.floor(random() * totalWeight);
+    let sum = 0;
+    for (const entry of entries) {
+      sum += entry.weight;
+      if (sum > choice) return entry;
+    }
+    return entries[entries.length - 1];
+  }
+}
+
+/**
+ * Open a Polyglot opening book from its contents. The pgn-chess/node
+ * entry point also takes a file path. Matches chess.polyglot.open_reader()
+ */
+export function openReader(data: Uint8Array): PolyglotReader {
+  return new PolyglotReader(data);
+}
+
+// =============================================================================
+// Writing Books
+// =============================================================================
+
+/** Options for buildPolyglotBook() */
+export interface PolyglotBookOptions {
+  /** Only moves within this many plies from the start of each game (default no limit) */
+  maxPly?: number;
+
+  /** Also walk the variations, not just the mainlines (default true) */
+  variations?: boolean;
+
+  /** Only moves played by this side, e.g. for a white repertoire */
+  color?: Color;
+
+  /** Weight of a move for each game it won (default 2) */
+  winWeight?: number;
+
+  /** Weight of a move for each game it drew or with an unknown result (default 1) */
+  drawWeight?: number;
+
+  /** Weight of a move for each game it lost (default 0) */
+  lossWeight?: number;
+}
+
+/** Winner of a game by its Result header, or null for draws and unknown results */
+function resultWinner(result: string | undefined): Color | null {
+  if (result === '1-0') return WHITE;
+  if (result === '0-1') return BLACK;
+  return null;
+}
+
+/** Move in the book encoding: castling as king takes rook, drops in the promotion bits */
+function encodeMove(board: Board, move: Move): number {
+  const { fromSquare, toSquare } = Move.fromUci(board.uci(move, true));
+  const piece = move.drop ?? move.promotion;
+  return toSquare | (fromSquare << 6) | ((piece === null ? 0 : piece - 1) << 12);
+}
+
+/**
+ * Build a Polyglot book from the moves of PGN games. Every position and
+ * move pair is weighted by the results of the games it was played in, from
+ * the point of view of the side that played it. Weights are scaled down
+ * to fit 16 bits if needed. The result is sorted by key, then by weight
+ * (highest first), ready to be written to a .bin file or read with
+ * openReader().
+ */
+export function buildPolyglotBook(games: Iterable<Game>, options?: PolyglotBookOptions): Uint8Array {
+  const maxPly = options?.maxPly ?? Infinity;
+  const walkVariations = options?.variations ?? true;
+  const weights = new Map<string, { key: bigint; rawMove: number; weight: number }>();
+
+  for (const game of games) {
+    const winner = resultWinner(game.headers.get('Result'));
+    const board = game.board();
+
+    const walk = (node: GameNode, ply: number): void => {
+      if (ply >= maxPly) return;
+      const children = walkVariations ? node.variations : node.variations.slice(0, 1);
+
+      for (const child of children) {
+        const move = child.move!;
+        const color = board.turn;
+
+        if (!move.isNull() && (options?.color === undefined || options.color === color)) {
+          const key = board.zobristHash();
+          const rawMove = encodeMove(board, move);
+          const weight = winner === null ? options?.drawWeight ?? 1 :
+                         winner === color ? options?.winWeight ?? 2 : options?.lossWeight ?? 0;
+
+          const id = `${key}:${rawMove}`;
+          const entry = weights.get(id);
+          if (entry === undefined) {
+            weights.set(id, { key, rawMove, weight });
+          } else {
+            entry.weight += weight;
+          }
+        }
+
+        board.push(move);
+        walk(child, ply + 1);
+        board.pop();
+      }
+    };
+    walk(game, 0);
+  }
+
+  const entries = [...weights.values()].sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : b.weight - a.weight);
+
+  const maxWeight = entries.reduce((max, entry) => Math.max(max, entry.weight), 0);
+  const scale = maxWeight > 0xffff ? 0xffff / maxWeight : 1;
+
+  const data = new Uint8Array(entries.length * ENTRY_SIZE);
+  const view = new DataView(data.buffer);
+  entries.forEach((entry, i) => {
+    const weight = entry.weight > 0 ? Math.max(1, Math.floor(entry.weight * scale)) : 0;
+    view.setBigUint64(i * ENTRY_SIZE, entry.key);
+    view.setUint16(i * ENTRY_SIZE + 8, entry.rawMove);
+    view.setUint16(i * ENTRY_SIZE + 10, weight);
+    view.setUint32(i * ENTRY_SIZE + 12, 0);
+  });
+  return data;
+}
@@ -0,0 +1,115 @@
+/**
+ * Racing Kings variant matching python-chess chess.variant.RacingKingsBoard
+ *
+ * Both kings race to the eighth rank. Giving check is not allowed. If
+ * white gets there first, black may still draw by reaching the eighth
+ * rank on the very next move.
+ */
+
+import {
+  Color, WHITE, BLACK, BB_EMPTY, BB_ALL,
+  STATUS_RACE_CHECK, STATUS_RACE_OVER, STATUS_RACE_MATERIAL,
+  STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+} from './types';
+import { Bitboard, BB_KING_ATTACKS, BB_RANK_8, msb, popcount, scanForward } from './bitboard';
+import { Board } from './board';
+import { Move } from './move';
+
+/**
+ * Racing Kings board.
+ * Matches python-chess chess.variant.RacingKingsBoard class.
+ */
+export class RacingKingsBoard extends Board {
+  static aliases = ['Racing Kings', 'Racing', 'Race', 'racingkings'];
+  static uciVariant = 'racingkings';
+  static xboardVariant = 'racingkings';
+  static startingFen = '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+
+  // ==========================================================================
+  // Moves
+  // ==========================================================================
+
+  /** Moves that give check are illegal */
+  isLegal(move: Move): boolean {
+    return super.isLegal(move) && !this.givesCheck(move);
+  }
+
+  *generateLegalMoves(fromMask: Bitboard = BB_ALL, toMask: Bitboard = BB_ALL): IterableIterator<Move> {
+    for (const move of super.generateLegalMoves(fromMask, toMask)) {
+      if (!this.givesCheck(move)) {
+        yield move;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Game End
+  // ==========================================================================
+
+  /**
+   * A king has reached the eighth rank, and black can not equalize by
+   * reaching it as well on the next move
+   */
+  isVariantEnd(): boolean {
+    if (!(this.kings & BB_RANK_8)) return false;
+
+    const blackKings = this.kings & this.occupiedCo[Number(BLACK)];
+    if (this._turn === WHITE || (blackKings & BB_RANK_8) || !blackKings) {
+      return true;
+    }
+
+    // White has reached the backrank, so black needs a safe square there
+    const targets = BB_KING_ATTACKS[msb(blackKings)] & BB_RANK_8 & ~this.occupiedCo[Number(BLACK)];
+    for (const target of scanForward(targets)) {
+      if (!this.attackersMask(WHITE, target)) return false;
+    }
+    return true;
+  }
+
+  /** Both kings have reached the eighth rank */
+  isVariantDraw(): boolean {
+    const inGoal = this.kings & BB_RANK_8;
+    return (inGoal & this.occupiedCo[0]) !== BB_EMPTY && (inGoal & this.occupiedCo[1]) !== BB_EMPTY;
+  }
+
+  isVariantLoss(): boolean {
+    return this.isVariantEnd() && !(this.kings & this.occupiedCo[Number(this._turn)] & BB_RANK_8);
+  }
+
+  isVariantWin(): boolean {
+    const inGoal = this.kings & BB_RANK_8;
+    return this.isVariantEnd() &&
+           (inGoal & this.occupiedCo[Number(this._turn)]) !== BB_EMPTY &&
+           !(inGoal & this.occupiedCo[Number(!this._turn)]);
+  }
+
+  /** A lone king can still win the race */
+  hasInsufficientMaterial(color?: Color): boolean {
+    return false;
+  }
+
+  /**
+   * Checks are never legal, the race must not already be decided and the
+   * material must fit the starting set: no pawns, at most one queen and
+   * two of each other piece per side
+   */
+  status(): number {
+    let status = super.status();
+    if (this.isCheck()) {
+      status |= STATUS_RACE_CHECK | STATUS_TOO_MANY_CHECKERS | STATUS_IMPOSSIBLE_CHECK;
+    }
+    if (this._turn === BLACK && (this.occupiedCo[0] & this.kings & BB_RANK_8) && (this.occupiedCo[1] & this.kings & BB_RANK_8)) {
+      status |= STATUS_RACE_OVER;
+    }
+    if (this.pawns) {
+      status |= STATUS_RACE_MATERIAL;
+    }
+    for (const us of this.occupiedCo) {
+      if (popcount(us & this.knights) > 2 || popcount(us & this.bishops) > 2 ||
+          popcount(us & this.rooks) > 2 || popcount(us & this.queens) > 1) {
+        status |= STATUS_RACE_MATERIAL;
+      }
+    }
+    return status;
+  }
+}
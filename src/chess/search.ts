@@ -0,0 +1,376 @@
+/**
+ * Small alpha-beta engine for move suggestions without an external engine
+ *
+ * Iterative deepening negamax with a transposition table and a quiescence
+ * search over captures, evaluating material and piece-square tables
+ * (Tomasz Michniewski's "Simplified Evaluation Function"). It is meant for
+ * hints, tests and annotating games, not for playing strength.
+ */
+
+import type { Board } from './board';
+import type { Move } from './move';
+import { Color, PieceType, WHITE, BLACK, PAWN, KNIGHT, QUEEN, KING, PIECE_VALUES } from './types';
+import { scanForward } from './bitboard';
+
+/** Limits for search(). The search stops at whichever is reached first */
+export interface SearchOptions {
+  /** Maximum depth in plies (4 if there is no node or time limit) */
+  depth?: number;
+
+  /** Stop after about this many nodes */
+  nodes?: number;
+
+  /** Stop after about this many milliseconds */
+  time?: number;
+}
+
+/** Result of the last completed iteration of search() */
+export interface SearchResult {
+  /** Best move, or null if the game is over */
+  move: Move | null;
+
+  /** Principal variation, starting with the best move */
+  pv: Move[];
+
+  /** Score in centipawns from the point of view of the side to move */
+  score: number;
+
+  /** Moves to mate if the score is a mate, negative if the side to move gets mated */
+  mate: number | null;
+
+  /** Depth in plies */
+  depth: number;
+
+  /** Nodes searched, including the quiescence search */
+  nodes: number;
+}
+
+const MATE = 100000;
+const MATE_BOUND = MATE - 1000;
+const INFINITY = MATE + 1;
+const MAX_PLY = 64;
+const TT_SIZE = 1 << 20;
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+// Piece-square tables for white, a8 first so they read like a diagram
+// (index with square ^ 56 for white and square for black)
+
+const PAWN_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+  50,  50,  50,  50,  50,  50,  50,  50,
+  10,  10,  20,  30,  30,  20,  10,  10,
+   5,   5,  10,  25,  25,  10,   5,   5,
+   0,   0,   0,  20,  20,   0,   0,   0,
+   5,  -5, -10,   0,   0, -10,  -5,   5,
+   5,  10,  10, -20, -20,  10,  10,   5,
+   0,   0,   0,   0,   0,   0,   0,   0,
+];
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20,   0,   0,   0,   0, -20, -40,
+  -30,   0,  10,  15,  15,  10,   0, -30,
+  -30,   5,  15,  20,  20,  15,   5, -30,
+  -30,   0,  15,  20,  20,  15,   0, -30,
+  -30,   5,  10,  15,  15,  10,   5, -30,
+  -40, -20,   0,   5,   5,   0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50,
+];
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,  10,  10,   5,   0, -10,
+  -10,   5,   5,  10,  10,   5,   5, -10,
+  -10,   0,  10,  10,  10,  10,   0, -10,
+  -10,  10,  10,  10,  10,  10,  10, -10,
+  -10,   5,   0,   0,   0,   0,   5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20,
+];
+
+const ROOK_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+   5,  10,  10,  10,  10,  10,  10,   5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+   0,   0,   0,   5,   5,   0,   0,   0,
+];
+
+const QUEEN_TABLE = [
+  -20, -10, -10,  -5,  -5, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,   5,   5,   5,   0, -10,
+   -5,   0,   5,   5,   5,   5,   0,  -5,
+    0,   0,   5,   5,   5,   5,   0,  -5,
+  -10,   5,   5,   5,   5,   5,   0, -10,
+  -10,   0,   5,   0,   0,   0,   0, -10,
+  -20, -10, -10,  -5,  -5, -10, -10, -20,
+];
+
+const KING_MIDDLEGAME_TABLE = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+   20,  20,   0,   0,   0,   0,  20,  20,
+   20,  30,  10,   0,   0,  10,  30,  20,
+];
+
+const KING_ENDGAME_TABLE = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10,   0,   0, -10, -20, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -30,   0,   0,   0,   0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50,
+];
+
+const PIECE_TABLES: readonly (readonly number[])[] = [
+  [], PAWN_TABLE, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE,
+];
+
+/** Non-pawn material of both sides at or below which kings head for the center */
+const ENDGAME_MATERIAL = 2 * (PIECE_VALUES[QUEEN] + PIECE_VALUES[KNIGHT]);
+
+function tableIndex(square: number, color: Color): number {
+  return color === WHITE ? square ^ 56 : square;
+}
+
+/** Static evaluation in centipawns from the point of view of the side to move */
+export function evaluate(board: Board): number {
+  let score = 0;
+  let material = 0;
+
+  for (const color of [WHITE, BLACK]) {
+    const sign = color === WHITE ? 1 : -1;
+    for (let pieceType: PieceType = PAWN; pieceType < KING; pieceType++) {
+      for (const square of scanForward(board.piecesMask(pieceType, color))) {
+        score += sign * (PIECE_VALUES[pieceType] + PIECE_TABLES[pieceType][tableIndex(square, color)]);
+        if (pieceType !== PAWN) material += PIECE_VALUES[pieceType];
+      }
+    }
+  }
+
+  const kingTable = material <= ENDGAME_MATERIAL ? KING_ENDGAME_TABLE : KING_MIDDLEGAME_TABLE;
+  for (const color of [WHITE, BLACK]) {
+    for (const square of scanForward(board.piecesMask(KING, color))) {
+      score += (color === WHITE ? 1 : -1) * kingTable[tableIndex(square, color)];
+    }
+  }
+
+  return board.turn === WHITE ? score : -score;
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+enum Bound { EXACT, LOWER, UPPER }
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: Move | null;
+}
+
+/** Mate scores are stored relative to the node, not the root */
+function toTable(score: number, ply: number): number {
+  if (score >= MATE_BOUND) return score + ply;
+  if (score <= -MATE_BOUND) return score - ply;
+  return score;
+}
+
+function fromTable(score: number, ply: number): number {
+  if (score >= MATE_BOUND) return score - ply;
+  if (score <= -MATE_BOUND) return score + ply;
+  return score;
+}
+
+function mateIn(score: number): number | null {
+  if (Math.abs(score) < MATE_BOUND) return null;
+  const plies = MATE - Math.abs(score);
+  if (plies === 0) return 0; // Mated in the current position
+  return score > 0 ? (plies + 1) / 2 : -plies / 2;
+}
+
+/** Captured piece value first, then the cheapest capturer */
+function orderScore(board: Board, move: Move, tableMove: Move | null): number {
+  if (tableMove !== null && move.equals(tableMove)) return 1_000_000;
+
+  let score = move.promotion === null ? 0 : PIECE_VALUES[move.promotion];
+  if (board.isCapture(move)) {
+    const victim = board.isEnPassant(move) ? PAWN : board.pieceTypeAt(move.toSquare)!;
+    const attacker = board.pieceTypeAt(move.fromSquare)!;
+    score += 10_000 + 10 * PIECE_VALUES[victim] - PIECE_VALUES[attacker];
+  }
+  return score;
+}
+
+class Searcher {
+  private readonly board: Board;
+  private readonly nodeLimit: number;
+  private readonly deadline: number;
+  private readonly table = new Map<bigint, TableEntry>();
+  private depth = 0;
+  private stopped = false;
+  nodes = 0;
+
+  constructor(board: Board, options: SearchOptions) {
+    this.board = board;
+    this.nodeLimit = options.nodes ?? Infinity;
+    this.deadline = options.time === undefined ? Infinity : Date.now() + options.time;
+  }
+
+  run(maxDepth: number): SearchResult {
+    let result: SearchResult = { move: null, pv: [], score: 0, mate: null, depth: 0, nodes: 0 };
+
+    for (this.depth = 1; this.depth <= Math.min(maxDepth, MAX_PLY); this.depth++) {
+      const pv: Move[] = [];
+      const score = this.negamax(this.depth, -INFINITY, INFINITY, 0, pv);
+      if (this.stopped) break;
+
+      result = { move: pv[0] ?? null, pv, score, mate: mateIn(score), depth: this.depth, nodes: this.nodes };
+
+      // Game over, or a mate that deeper searches cannot improve on
+      if (pv.length === 0 || MATE - Math.abs(score) <= this.depth) break;
+    }
+
+    result.nodes = this.nodes;
+    return result;
+  }
+
+  /** The first iteration always completes, so there is a move to return */
+  private shouldStop(): boolean {
+    if (this.depth <= 1) return false;
+    if (this.nodes >= this.nodeLimit) return true;
+    return (this.nodes & 1023) === 0 && Date.now() >= this.deadline;
+  }
+
+  private negamax(depth: number, alpha: number, beta: number, ply: number, pv: Move[]): number {
+    const board = this.board;
+    this.nodes++;
+    if (this.shouldStop()) {
+      this.stopped = true;
+      return 0;
+    }
+
+    if (board.isVariantEnd()) {
+      if (board.isVariantWin()) return MATE - ply;
+      if (board.isVariantLoss()) return -MATE + ply;
+      return 0;
+    }
+    if (ply > 0 && (board.halfmoveClock >= 100 || board.isInsufficientMaterial() || board.isRepetition(2))) {
+      return 0;
+    }
+
+    // Extend checks instead of standing pat in the quiescence search
+    const inCheck = board.isCheck();
+    if (depth <= 0 && !inCheck) return this.quiesce(alpha, beta, ply);
+    if (ply >= MAX_PLY) return evaluate(board);
+    depth = Math.max(depth, 1);
+
+    const key = board.zobristHash();
+    const entry = this.table.get(key);
+    if (entry !== undefined && entry.depth >= depth && ply > 0) {
+      const score = fromTable(entry.score, ply);
+      if (entry.bound === Bound.EXACT ||
+          (entry.bound === Bound.LOWER && score >= beta) ||
+          (entry.bound === Bound.UPPER && score <= alpha)) {
+        return score;
+      }
+    }
+
+    const tableMove = entry?.move ?? null;
+    const moves = [...board.legalMoves()]
+      .map(move => ({ move, order: orderScore(board, move, tableMove) }))
+      .sort((a, b) => b.order - a.order);
+    if (moves.length === 0) {
+      return inCheck ? -MATE + ply : 0;
+    }
+
+    const alphaOrig = alpha;
+    let best = -INFINITY;
+    let bestMove: Move | null = null;
+    const childPv: Move[] = [];
+
+    for (const { move } of moves) {
+      board.push(move);
+      childPv.length = 0;
+      const score = -this.negamax(depth - 1, -beta, -alpha, ply + 1, childPv);
+      board.pop();
+      if (this.stopped) return 0;
+
+      if (score > best) {
+        best = score;
+        bestMove = move;
+        if (score > alpha) {
+          alpha = score;
+          pv.length = 0;
+          pv.push(move, ...childPv);
+          if (alpha >= beta) break;
+        }
+      }
+    }
+
+    if (this.table.size >= TT_SIZE) this.table.clear();
+    this.table.set(key, {
+      depth,
+      score: toTable(best, ply),
+      bound: best <= alphaOrig ? Bound.UPPER : best >= beta ? Bound.LOWER : Bound.EXACT,
+      move: bestMove,
+    });
+    return best;
+  }
+
+  /** Search captures that do not lose material until the position is quiet */
+  private quiesce(alpha: number, beta: number, ply: number): number {
+    const board = this.board;
+    this.nodes++;
+    if (this.shouldStop()) {
+      this.stopped = true;
+      return 0;
+    }
+
+    const standPat = evaluate(board);
+    if (standPat >= beta || ply >= MAX_PLY) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const captures = [...board.generateLegalCaptures()]
+      .filter(move => board.seeGe(move))
+      .map(move => ({ move, order: orderScore(board, move, null) }))
+      .sort((a, b) => b.order - a.order);
+
+    for (const { move } of captures) {
+      board.push(move);
+      const score = -this.quiesce(-beta, -alpha, ply + 1);
+      board.pop();
+      if (this.stopped) return 0;
+
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  }
+}
+
+/**
+ * Search for the best move of the side to move within the given limits.
+ * The first iteration (one ply) always completes, so a move is returned
+ * unless the game is over. The board is restored before returning.
+ */
+export function search(board: Board, options: SearchOptions = {}): SearchResult {
+  const unlimited = options.nodes === undefined && options.time === undefined;
+  const maxDepth = options.depth ?? (unlimited ? 4 : MAX_PLY);
+  return new Searcher(board, options).run(maxDepth);
+}
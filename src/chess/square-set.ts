@@ -0,0 +1,218 @@
+/**
+ * SquareSet class matching python-chess chess.SquareSet
+ */
+
+import { Square, BB_EMPTY, BB_ALL } from './types';
+import {
+  Bitboard, BB_SQUARES,
+  lsb, msb, popcount, scanForward, scanReverse, flipVertical, ray, between,
+} from './bitboard';
+
+/** Anything that can be turned into a square set */
+export type IntoSquareSet = SquareSet | Bitboard | Iterable<Square>;
+
+/**
+ * A set of squares backed by a bitboard.
+ * Matches python-chess chess.SquareSet class.
+ */
+export class SquareSet implements Iterable<Square> {
+  /** The underlying bitboard */
+  mask: Bitboard;
+
+  constructor(squares: IntoSquareSet = BB_EMPTY) {
+    this.mask = toMask(squares);
+  }
+
+  // ==========================================================================
+  // Set Queries
+  // ==========================================================================
+
+  /** Number of squares in the set */
+  get size(): number {
+    return popcount(this.mask);
+  }
+
+  /** Check if a square is in the set */
+  has(square: Square): boolean {
+    return (this.mask & BB_SQUARES[square]) !== BB_EMPTY;
+  }
+
+  /** Check if the set is empty */
+  isEmpty(): boolean {
+    return this.mask === BB_EMPTY;
+  }
+
+  /** Matches squares.isdisjoint() */
+  isDisjoint(other: IntoSquareSet): boolean {
+    return (this.mask & toMask(other)) === BB_EMPTY;
+  }
+
+  /** Matches squares.issubset() */
+  isSubset(other: IntoSquareSet): boolean {
+    return (this.mask & ~toMask(other)) === BB_EMPTY;
+  }
+
+  /** Matches squares.issuperset() */
+  isSuperset(other: IntoSquareSet): boolean {
+    return (toMask(other) & ~this.mask) === BB_EMPTY;
+  }
+
+  /** Check equality with another square set or mask */
+  equals(other: IntoSquareSet): boolean {
+    return this.mask === toMask(other);
+  }
+
+  // ==========================================================================
+  // Set Operations (return new sets)
+  // ==========================================================================
+
+  union(other: IntoSquareSet): SquareSet {
+    return new SquareSet(this.mask | toMask(other));
+  }
+
+  intersection(other: IntoSquareSet): SquareSet {
+    return new SquareSet(this.mask & toMask(other));
+  }
+
+  difference(other: IntoSquareSet): SquareSet {
+    return new SquareSet(this.mask & ~toMask(other));
+  }
+
+  symmetricDifference(other: IntoSquareSet): SquareSet {
+    return new SquareSet(this.mask ^ toMask(other));
+  }
+
+  /** Complement of this set */
+  complement(): SquareSet {
+    return new SquareSet(~this.mask & BB_ALL);
+  }
+
+  /** Vertically mirrored copy. Matches squares.mirror() */
+  mirror(): SquareSet {
+    return new SquareSet(flipVertical(this.mask));
+  }
+
+  /** Create a copy */
+  copy(): SquareSet {
+    return new SquareSet(this.mask);
+  }
+
+  // ==========================================================================
+  // Mutation
+  // ==========================================================================
+
+  /** Add a square */
+  add(square: Square): void {
+    this.mask |= BB_SQUARES[square];
+  }
+
+  /** Remove a square if present. Matches squares.discard() */
+  discard(square: Square): void {
+    this.mask &= ~BB_SQUARES[square];
+  }
+
+  /** Remove a square, throwing if it is not present */
+  remove(square: Square): void {
+    if (!this.has(square)) {
+      throw new Error(`Square not in set: ${square}`);
+    }
+    this.mask ^= BB_SQUARES[square];
+  }
+
+  /** Remove and return the lowest square, throwing if empty */
+  pop(): Square {
+    if (this.mask === BB_EMPTY) {
+      throw new Error('pop from empty SquareSet');
+    }
+    const square = lsb(this.mask);
+    this.mask &= this.mask - 1n;
+    return square;
+  }
+
+  /** Remove all squares */
+  clear(): void {
+    this.mask = BB_EMPTY;
+  }
+
+  /** Add all squares of another set. Matches squares.update() */
+  update(...others: IntoSquareSet[]): void {
+    for (const other of others) {
+      this.mask |= toMask(other);
+    }
+  }
+
+  // ==========================================================================
+  // Iteration and Conversion
+  // ==========================================================================
+
+  /** Iterate squares from a1 to h8 */
+  [Symbol.iterator](): IterableIterator<Square> {
+    return scanForward(this.mask);
+  }
+
+  /** Iterate squares from h8 to a1 */
+  reversed(): IterableIterator<Square> {
+    return scanReverse(this.mask);
+  }
+
+  /** Lowest square, or null if empty */
+  first(): Square | null {
+    return this.mask ? lsb(this.mask) : null;
+  }
+
+  /** Highest square, or null if empty */
+  last(): Square | null {
+    return this.mask ? msb(this.mask) : null;
+  }
+
+  /** Convert to an array of squares. Matches squares.tolist() */
+  toArray(): Square[] {
+    return [...this];
+  }
+
+  /** 8x8 diagram of the set, rank 8 first */
+  toString(): string {
+    const lines: string[] = [];
+    for (let rank = 7; rank >= 0; rank--) {
+      const cells: string[] = [];
+      for (let file = 0; file < 8; file++) {
+        cells.push(this.has(rank * 8 + file) ? '1' : '.');
+      }
+      lines.push(cells.join(' '));
+    }
+    return lines.join('\n');
+  }
+
+  // ==========================================================================
+  // Constructors
+  // ==========================================================================
+
+  /** Set containing a single square. Matches SquareSet.from_square() */
+  static fromSquare(square: Square): SquareSet {
+    return new SquareSet(BB_SQUARES[square]);
+  }
+
+  /** Full line through two squares. Matches SquareSet.ray() */
+  static ray(a: Square, b: Square): SquareSet {
+    return new SquareSet(ray(a, b));
+  }
+
+  /** Squares strictly between two squares. Matches SquareSet.between() */
+  static between(a: Square, b: Square): SquareSet {
+    return new SquareSet(between(a, b));
+  }
+}
+
+function toMask(squares: IntoSquareSet): Bitboard {
+  if (typeof squares === 'bigint') {
+    return squares & BB_ALL;
+  }
+  if (squares instanceof SquareSet) {
+    return squares.mask;
+  }
+  let mask = BB_EMPTY;
+  for (const square of squares) {
+    mask |= BB_SQUARES[square];
+  }
+  return mask;
+}
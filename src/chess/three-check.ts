@@ -0,0 +1,147 @@
+/**
+ * Three-check variant matching python-chess chess.variant.ThreeCheckBoard
+ *
+ * Standard chess, but giving check for the third time wins. Like
+ * python-chess, the FEN carries the checks white and black still have to
+ * give after the en passant square, e.g.
+ * "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 3+3 0 1". The
+ * lichess form with the checks given appended ("... 0 1 +0+0") is read too.
+ */
+
+import { Color } from './types';
+import { Board, BoardState } from './board';
+import { Move } from './move';
+import { FenError, FenNormalization, fenFields, blankFen } from './fen';
+
+/**
+ * Three-check board.
+ * Matches python-chess chess.variant.ThreeCheckBoard class.
+ */
+export class ThreeCheckBoard extends Board {
+  static aliases = ['Three-check', 'Three check', 'Threecheck', 'Three check chess', '3-check', '3 check', '3check'];
+  static uciVariant = '3check';
+  static xboardVariant = '3check';
+  static startingFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 3+3 0 1';
+
+  /** Checks each side still has to give, indexed by Number(color): [black, white] */
+  remainingChecks!: [number, number];
+
+  constructor(fen?: string | null, options?: { chess960?: boolean }) {
+    super(null, options);
+    this.remainingChecks = [3, 3];
+    if (fen !== null) {
+      this.setFen(fen ?? ThreeCheckBoard.startingFen);
+    }
+  }
+
+  // ==========================================================================
+  // Moves
+  // ==========================================================================
+
+  /** Apply a move, counting the check it gives */
+  push(move: Move): void {
+    super.push(move);
+    if (this.isCheck()) {
+      this.remainingChecks[Number(!this._turn)]--;
+    }
+  }
+
+  // ==========================================================================
+  // Game End
+  // ==========================================================================
+
+  /** A side has given its third check */
+  isVariantEnd(): boolean {
+    return this.remainingChecks[0] <= 0 || this.remainingChecks[1] <= 0;
+  }
+
+  isVariantDraw(): boolean {
+    return this.remainingChecks[0] <= 0 && this.remainingChecks[1] <= 0;
+  }
+
+  /** The opponent has given its third check */
+  isVariantLoss(): boolean {
+    return this.remainingChecks[Number(!this._turn)] <= 0 && this.remainingChecks[Number(this._turn)] > 0;
+  }
+
+  /** We have given our third check */
+  isVariantWin(): boolean {
+    return this.remainingChecks[Number(this._turn)] <= 0 && this.remainingChecks[Number(!this._turn)] > 0;
+  }
+
+  /** Any piece besides the king can give check */
+  hasInsufficientMaterial(color?: Color): boolean {
+    if (color === undefined) {
+      return this.isInsufficientMaterial();
+    }
+    return !(this.occupiedCo[Number(color)] & ~this.kings);
+  }
+
+  protected transpositionKey(): string {
+    return [super.transpositionKey(), this.remainingChecks[1], this.remainingChecks[0]].join(':');
+  }
+
+  // ==========================================================================
+  // FEN
+  // ==========================================================================
+
+  /** FEN with the remaining checks of white and black after the en passant square, e.g. "... - 2+3 0 1" */
+  fen(options?: { shredder?: boolean }): string {
+    const remaining = (color: number) => Math.max(this.remainingChecks[color], 0);
+    const fields = super.fen(options).split(' ');
+    fields.splice(4, 0, `${remaining(1)}+${remaining(0)}`);
+    return fields.join(' ');
+  }
+
+  /**
+   * Set position from FEN, with the checks given in lichess style
+   * ("... 0 1 +1+0") or the remaining checks after the en passant square
+   * ("... - 2+3 0 1")
+   */
+  setFen(fen: string, options?: { strict?: boolean }): FenNormalization[] {
+    const fields = fenFields(fen);
+    let remainingChecks: [number, number] = [3, 3];
+
+    let checks = fields.length >= 7 && fields[6].text.startsWith('+') ? fields[6] : null;
+    if (checks) {
+      const match = checks.text.match(/^\+(\d+)\+(\d+)$/);
+      if (!match) {
+        throw new FenError('remainingChecks', checks.offset, `invalid checks given '${checks.text}'`);
+      }
+      remainingChecks = [3 - parseInt(match[2]), 3 - parseInt(match[1])];
+    } else if (fields.length >= 5 && fields[4].text.includes('+')) {
+      checks = fields[4];
+      const match = checks.text.match(/^(\d+)\+(\d+)$/);
+      if (!match) {
+        throw new FenError('remainingChecks', checks.offset, `invalid remaining checks '${checks.text}'`);
+      }
+      remainingChecks = [parseInt(match[2]), parseInt(match[1])];
+    }
+
+    const normalizations = super.setFen(checks ? blankFen(fen, checks.offset, checks.text.length) : fen, options);
+    this.remainingChecks = remainingChecks;
+    return normalizations;
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  clear(): void {
+    super.clear();
+    this.remainingChecks = [3, 3];
+  }
+
+  protected saveState(): ThreeCheckBoardState {
+    return { ...super.saveState(), remainingChecks: [...this.remainingChecks] };
+  }
+
+  protected restoreState(state: BoardState): void {
+    super.restoreState(state);
+    this.remainingChecks = [...(state as ThreeCheckBoardState).remainingChecks];
+  }
+}
+
+interface ThreeCheckBoardState extends BoardState {
+  remainingChecks: [number, number];
+}
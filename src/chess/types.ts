@@ -185,6 +185,16 @@ export function squareDistance(sq1: Square, sq2: Square): number {
   return Math.max(Math.abs(file1 - file2), Math.abs(rank1 - rank2));
 }
 
+// =============================================================================
+// Piece Values (in centipawns)
+// =============================================================================
+
+/**
+ * Material value of each piece type (index 0 unused). The king has no
+ * material value since it is never traded.
+ */
+export const PIECE_VALUES: readonly number[] = [0, 100, 300, 300, 500, 900, 0] as const;
+
 // =============================================================================
 // Castling Rights (as bitmask, matching python-chess)
 // =============================================================================
@@ -201,6 +211,29 @@ export const CASTLING_WHITE = CASTLING_WHITE_KINGSIDE | CASTLING_WHITE_QUEENSIDE
 export const CASTLING_BLACK = CASTLING_BLACK_KINGSIDE | CASTLING_BLACK_QUEENSIDE;
 export const CASTLING_ALL = CASTLING_WHITE | CASTLING_BLACK;
 
+// =============================================================================
+// Position Status (as bitmask, matching python-chess)
+// =============================================================================
+
+export const STATUS_VALID = 0;
+export const STATUS_NO_WHITE_KING = 1 << 0;
+export const STATUS_NO_BLACK_KING = 1 << 1;
+export const STATUS_TOO_MANY_KINGS = 1 << 2;
+export const STATUS_TOO_MANY_WHITE_PAWNS = 1 << 3;
+export const STATUS_TOO_MANY_BLACK_PAWNS = 1 << 4;
+export const STATUS_PAWNS_ON_BACKRANK = 1 << 5;
+export const STATUS_TOO_MANY_WHITE_PIECES = 1 << 6;
+export const STATUS_TOO_MANY_BLACK_PIECES = 1 << 7;
+export const STATUS_BAD_CASTLING_RIGHTS = 1 << 8;
+export const STATUS_INVALID_EP_SQUARE = 1 << 9;
+export const STATUS_OPPOSITE_CHECK = 1 << 10;
+export const STATUS_EMPTY = 1 << 11;
+export const STATUS_RACE_CHECK = 1 << 12;
+export const STATUS_RACE_OVER = 1 << 13;
+export const STATUS_RACE_MATERIAL = 1 << 14;
+export const STATUS_TOO_MANY_CHECKERS = 1 << 15;
+export const STATUS_IMPOSSIBLE_CHECK = 1 << 16;
+
 // =============================================================================
 // NAG (Numeric Annotation Glyphs) - matching python-chess
 // =============================================================================
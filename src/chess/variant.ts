@@ -0,0 +1,41 @@
+/**
+ * Chess variant lookup matching python-chess chess.variant
+ */
+
+import { Board } from './board';
+import { CrazyhouseBoard } from './crazyhouse';
+import { AtomicBoard } from './atomic';
+import { AntichessBoard } from './antichess';
+import { KingOfTheHillBoard } from './king-of-the-hill';
+import { ThreeCheckBoard } from './three-check';
+import { RacingKingsBoard } from './racing-kings';
+import { HordeBoard } from './horde';
+
+/** Board class of a variant, with its aliases and starting position */
+export type VariantBoard = typeof Board;
+
+/** All supported variants. Matches chess.variant.VARIANTS */
+export const VARIANTS: VariantBoard[] = [
+  Board,
+  CrazyhouseBoard,
+  AtomicBoard,
+  AntichessBoard,
+  KingOfTheHillBoard,
+  ThreeCheckBoard,
+  RacingKingsBoard,
+  HordeBoard,
+];
+
+/**
+ * Find a variant board class by one of its aliases (case-insensitive),
+ * e.g. the value of a PGN Variant header. Matches chess.variant.find_variant()
+ */
+export function findVariant(name: string): VariantBoard {
+  const lower = name.toLowerCase();
+  for (const variant of VARIANTS) {
+    if (variant.aliases.some(alias => alias.toLowerCase() === lower)) {
+      return variant;
+    }
+  }
+  throw new Error(`Unsupported variant: ${name}`);
+}
@@ -0,0 +1,126 @@
+/**
+ * Game annotation with a UCI or XBoard engine
+ *
+ * Every mainline position is analysed once. A move's centipawn loss is the
+ * score of the best move minus the score of the move played, both from the
+ * point of view of the player who moved.
+ */
+
+import { Move } from '../chess/move';
+import { WHITE, NAG_DUBIOUS_MOVE, NAG_MISTAKE, NAG_BLUNDER } from '../chess/types';
+import type { Game } from '../pgn/game';
+import type { GameNode } from '../pgn/game-node';
+import { EngineScore, Limit } from './engine';
+import { UciEngine } from './uci';
+import { XBoardEngine } from './xboard';
+
+/** Centipawn value of a mate, less the moves to mate */
+const MATE_SCORE = 100000;
+
+/** Options for annotateGame() */
+export interface AnnotateOptions {
+  /** Search each position this many plies. Defaults to 12 without another limit */
+  depth?: number;
+
+  /** Search each position this many nodes */
+  nodes?: number;
+
+  /** Search each position this many milliseconds */
+  movetime?: number;
+
+  /** Centipawn loss from which a move is dubious ($6). Defaults to 50 */
+  inaccuracy?: number;
+
+  /** Centipawn loss from which a move is a mistake ($2) and gets the best line as a variation. Defaults to 100 */
+  mistake?: number;
+
+  /** Centipawn loss from which a move is a blunder ($4). Defaults to 300 */
+  blunder?: number;
+}
+
+/**
+ * Analysis of a position: score for the side to move (null if the engine
+ * sent none), moves to mate if the score is a mate, and the best line
+ */
+interface Analysis {
+  score: number | null;
+  mate: number | null;
+  pv: Move[];
+}
+
+/**
+ * Analyse the mainline of a game and annotate it in place. Each move gets
+ * node.eval in pawns, or node.evalMate in moves for a mate score, both from
+ * white's point of view, and a $6, $2 or $4 NAG by its centipawn loss.
+ * Mistakes and blunders also get the engine's best line as a new variation.
+ * Moves that end the game keep the eval they had, as do moves the engine
+ * sends no score for.
+ *
+ * @throws EngineError if the engine fails or exits
+ */
+export async function annotateGame(game: Game, engine: UciEngine | XBoardEngine, options: AnnotateOptions = {}): Promise<void> {
+  const limit: Limit = { depth: options.depth, nodes: options.nodes, time: options.movetime };
+  if (limit.depth === undefined && limit.nodes === undefined && limit.time === undefined) {
+    limit.depth = 12;
+  }
+  const inaccuracy = options.inaccuracy ?? 50;
+  const mistake = options.mistake ?? 100;
+  const blunder = options.blunder ?? 300;
+
+  let before = await analysePosition(engine, game, limit);
+  for (const node of game.mainline()) {
+    const parent = node.parent!;
+    const board = node.board();
+    const after = await analysePosition(engine, node, limit);
+
+    if (after.mate !== null) {
+      if (after.mate !== 0) {
+        node.evalMate = board.turn === WHITE ? after.mate : -after.mate;
+      }
+    } else if (after.score !== null) {
+      node.eval = (board.turn === WHITE ? after.score : -after.score) / 100;
+      node.evalMate = null;
+    }
+
+    // A move is only judged when both positions have a score
+    if (before.score !== null && after.score !== null) {
+      const loss = before.score + after.score;
+      if (loss >= blunder) {
+        node.nags.add(NAG_BLUNDER);
+      } else if (loss >= mistake) {
+        node.nags.add(NAG_MISTAKE);
+      } else if (loss >= inaccuracy) {
+        node.nags.add(NAG_DUBIOUS_MOVE);
+      }
+
+      const best = before.pv[0];
+      if (loss >= mistake && best && !parent.hasVariation(best)) {
+        parent.addLine(before.pv);
+      }
+    }
+
+    before = after;
+  }
+}
+
+/** Analyse a position, or score it without the engine if the game is over */
+async function analysePosition(engine: UciEngine | XBoardEngine, node: GameNode, limit: Limit): Promise<Analysis> {
+  const board = node.board();
+  const outcome = board.outcome();
+  if (outcome !== null) {
+    return outcome.winner === null
+      ? { score: 0, mate: null, pv: [] }
+      : { score: outcome.winner === board.turn ? MATE_SCORE : -MATE_SCORE, mate: 0, pv: [] };
+  }
+
+  const [info] = await engine.analyse(node, limit);
+  return { ...centipawns(info?.score), pv: info?.pv ?? [] };
+}
+
+/** Score as centipawns, mates counting as MATE_SCORE less the moves to mate */
+function centipawns(score: EngineScore | undefined): { score: number | null; mate: number | null } {
+  if (score?.mate !== null && score?.mate !== undefined) {
+    return { score: score.mate > 0 ? MATE_SCORE - score.mate : -MATE_SCORE - score.mate, mate: score.mate };
+  }
+  return { score: score?.cp ?? null, mate: null };
+}
@@ -0,0 +1,241 @@
+/**
+ * Engine communication shared by the UCI and XBoard clients
+ *
+ * Engines run as child processes speaking a line based text protocol on
+ * stdin and stdout. Results are Promises; search info is streamed to a
+ * callback as it arrives.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { Board } from '../chess/board';
+import { Move } from '../chess/move';
+import type { GameNode } from '../pgn/game-node';
+
+/**
+ * Engine failure: the process could not be started or exited, or the
+ * engine does not support a request.
+ */
+export class EngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EngineError';
+  }
+}
+
+/** Search limits. Times are in milliseconds */
+export interface Limit {
+  /** Search exactly this long */
+  time?: number;
+
+  /** Search this many plies */
+  depth?: number;
+
+  /** Search this many nodes */
+  nodes?: number;
+
+  /** Search for a mate in this many moves */
+  mate?: number;
+
+  /** Time left on the clock of white */
+  whiteClock?: number;
+
+  /** Time left on the clock of black */
+  blackClock?: number;
+
+  /** Increment of white per move */
+  whiteInc?: number;
+
+  /** Increment of black per move */
+  blackInc?: number;
+
+  /** Moves to the next time control */
+  remainingMoves?: number;
+}
+
+/** Engine evaluation from the point of view of the side to move */
+export interface EngineScore {
+  /** Centipawns, or null for a mate score */
+  cp: number | null;
+
+  /** Moves to mate, negative if the side to move gets mated, or null */
+  mate: number | null;
+
+  /** Set if the score is only a lower or upper bound (fail high or low) */
+  bound: 'lower' | 'upper' | null;
+}
+
+/** Search information sent by the engine. Matches chess.engine.InfoDict */
+export interface EngineInfo {
+  depth?: number;
+  seldepth?: number;
+
+  /** Time searched in milliseconds */
+  time?: number;
+
+  nodes?: number;
+  nps?: number;
+
+  /** Rank of the line when searching several (1 is the best) */
+  multipv?: number;
+
+  score?: EngineScore;
+
+  /** Principal variation, up to the first move that is not legal */
+  pv?: Move[];
+
+  /** Hash table fill in permill */
+  hashfull?: number;
+
+  tbhits?: number;
+  currmove?: Move;
+  currmovenumber?: number;
+
+  /** Free form text from the engine */
+  string?: string;
+}
+
+/** Outcome of a search. Matches chess.engine.PlayResult */
+export interface PlayResult {
+  /** Best move, or null if the engine has none (e.g. the game is over) */
+  move: Move | null;
+
+  /** Expected reply to ponder on, if any */
+  ponder: Move | null;
+
+  /** Last info of the best line */
+  info: EngineInfo;
+
+  /** The engine resigned instead of moving (XBoard only) */
+  resigned?: boolean;
+
+  /** The engine offered a draw with its move (XBoard only) */
+  drawOffered?: boolean;
+}
+
+/** Position to search: a board with its move history, or a game node */
+export type EnginePosition = Board | GameNode;
+
+/** Board of a position, with the moves from the game start on its stack */
+export function positionBoard(position: EnginePosition): Board {
+  return position instanceof Board ? position : position.board();
+}
+
+/** Copy of the position before the first move on the stack, and the moves since */
+export function rootAndMoves(board: Board): { root: Board; moves: Move[] } {
+  const moves = board.moveStack;
+  const root = board.copy();
+  for (let i = 0; i < moves.length; i++) {
+    root.pop();
+  }
+  return { root, moves };
+}
+
+interface PendingLine {
+  predicate: (line: string) => boolean;
+  onLine?: (line: string) => void;
+  resolve: (line: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Engine child process with line based input and output.
+ */
+export class EngineProcess {
+  /** The engine process */
+  private readonly child: ChildProcess;
+
+  /** Incomplete output line */
+  private buffer = '';
+
+  /** Waiters for output lines, in order */
+  private readonly pending: PendingLine[] = [];
+
+  /** Why the process is no longer usable, once it has exited */
+  private failure: EngineError | null = null;
+
+  /** Resolves when the process has exited */
+  private readonly exited: Promise<void>;
+
+  constructor(command: string, args: string[] = []) {
+    this.child = spawn(command, args, { stdio: ['pipe', 'pipe', 'ignore'] });
+    this.child.stdout!.setEncoding('utf8');
+    this.child.stdout!.on('data', (chunk: string) => this.receive(chunk));
+    this.child.stdin!.on('error', () => { /* Reported by 'exit' or 'error' */ });
+
+    this.exited = new Promise(resolve => {
+      this.child.on('error', error => {
+        this.fail(new EngineError(`Engine process failed: ${error.message}`));
+        resolve();
+      });
+      this.child.on('exit', (code, signal) => {
+        this.fail(new EngineError(`Engine process exited (${signal ?? `code ${code}`})`));
+        resolve();
+      });
+    });
+  }
+
+  /** Send a line to the engine */
+  send(line: string): void {
+    if (this.failure !== null) throw this.failure;
+    this.child.stdin!.write(line + '\n');
+  }
+
+  /**
+   * Wait for an output line matching the predicate. Earlier lines are
+   * passed to onLine, in order. Aborting the signal stops waiting with an
+   * EngineError.
+   */
+  waitFor(predicate: (line: string) => boolean, onLine?: (line: string) => void, signal?: AbortSignal): Promise<string> {
+    if (this.failure !== null) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      const waiter: PendingLine = { predicate, onLine, resolve, reject };
+      this.pending.push(waiter);
+      signal?.addEventListener('abort', () => {
+        const index = this.pending.indexOf(waiter);
+        if (index < 0) return;
+        this.pending.splice(index, 1);
+        reject(new EngineError('Stopped waiting for the engine'));
+      });
+    });
+  }
+
+  /**
+   * Wait for the process to exit after the quit command was sent, and kill
+   * it if it takes longer than the timeout.
+   */
+  async close(timeout: number = 2000): Promise<void> {
+    const timer = setTimeout(() => this.child.kill(), timeout);
+    await this.exited;
+    clearTimeout(timer);
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '').trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) this.dispatch(line);
+    }
+  }
+
+  private dispatch(line: string): void {
+    const waiter = this.pending[0];
+    if (waiter === undefined) return;
+
+    if (waiter.predicate(line)) {
+      this.pending.shift();
+      waiter.resolve(line);
+    } else {
+      waiter.onLine?.(line);
+    }
+  }
+
+  private fail(error: EngineError): void {
+    if (this.failure !== null) return;
+    this.failure = error;
+    for (const waiter of this.pending.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+}
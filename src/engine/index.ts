@@ -0,0 +1,14 @@
+/**
+ * Engine module - clients for external engines (matching python-chess chess.engine)
+ */
+
+export {
+  EngineError, Limit, EngineScore, EngineInfo, PlayResult, EnginePosition,
+} from './engine';
+export {
+  UciEngine, UciOption, UciOptionValue, UciGoOptions, parseUciInfo,
+} from './uci';
+export {
+  XBoardEngine, XBoardOption, XBoardOptionValue, XBoardGoOptions, parseXBoardPost,
+} from './xboard';
+export { annotateGame, AnnotateOptions } from './annotate';
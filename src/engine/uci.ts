@@ -0,0 +1,386 @@
+/**
+ * UCI engine client matching python-chess chess.engine.UciProtocol
+ *
+ * Spawns an engine binary, performs the uci/isready handshake, sets
+ * options and runs searches on positions sent as "position fen ... moves
+ * ...", streaming the parsed info lines until the bestmove arrives.
+ */
+
+import { Board } from '../chess/board';
+import { Move } from '../chess/move';
+import { STARTING_FEN } from '../chess/types';
+import {
+  EngineError, EngineInfo, EnginePosition, EngineProcess, EngineScore, Limit, PlayResult,
+  positionBoard, rootAndMoves,
+} from './engine';
+
+/** An option declared by the engine. Matches chess.engine.Option */
+export interface UciOption {
+  /** Name as declared by the engine */
+  name: string;
+
+  type: 'check' | 'spin' | 'combo' | 'button' | 'string';
+
+  /** Default value as sent by the engine, or null */
+  default: string | null;
+
+  /** Bounds of spin options */
+  min: number | null;
+  max: number | null;
+
+  /** Choices of combo options */
+  vars: string[];
+}
+
+/** Value for UciEngine.configure(). Buttons take null */
+export type UciOptionValue = string | number | boolean | null;
+
+/** Options for UciEngine.go() */
+export interface UciGoOptions {
+  /** Number of lines to search (sets the MultiPV option, 1 if not given) */
+  multipv?: number;
+
+  /** Only search these root moves */
+  searchMoves?: Move[];
+
+  /** Search until stop() is called, ignoring the limit */
+  infinite?: boolean;
+
+  /** Called for each info line as it arrives */
+  onInfo?: (info: EngineInfo) => void;
+}
+
+// Info keywords followed by a single integer
+const INTEGER_INFO = ['depth', 'seldepth', 'time', 'nodes', 'nps', 'multipv', 'hashfull', 'tbhits', 'currmovenumber'];
+
+const UCI_MOVE = /^(?:[a-h][1-8][a-h][1-8][pnbrqk]?|[PNBRQK]@[a-h][1-8]|0000)$/;
+
+/** Parse the UCI moves of a line, stopping at the first illegal one */
+function parseLine(board: Board, tokens: string[]): Move[] {
+  const copy = board.copy(false);
+  const moves: Move[] = [];
+  for (const token of tokens) {
+    let move: Move;
+    try {
+      move = copy.parseUci(token);
+    } catch {
+      break;
+    }
+    moves.push(move);
+    copy.push(move);
+  }
+  return moves;
+}
+
+/** Parse the arguments of an info line. Matches chess.engine._parse_uci_info() */
+export function parseUciInfo(text: string, board: Board): EngineInfo {
+  const info: EngineInfo = {};
+  const tokens = text.split(/\s+/).filter(token => token !== '');
+
+  for (let i = 0; i < tokens.length; i++) {
+    const keyword = tokens[i];
+
+    if (INTEGER_INFO.includes(keyword)) {
+      const value = parseInt(tokens[i + 1], 10);
+      if (!Number.isNaN(value)) {
+        (info as Record<string, number>)[keyword] = value;
+      }
+      i++;
+    } else if (keyword === 'score') {
+      const kind = tokens[i + 1];
+      const value = parseInt(tokens[i + 2], 10);
+      i += 2;
+      if ((kind !== 'cp' && kind !== 'mate') || Number.isNaN(value)) continue;
+
+      const score: EngineScore = {
+        cp: kind === 'cp' ? value : null,
+        mate: kind === 'mate' ? value : null,
+        bound: null,
+      };
+      if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') {
+        score.bound = tokens[i + 1] === 'lowerbound' ? 'lower' : 'upper';
+        i++;
+      }
+      info.score = score;
+    } else if (keyword === 'currmove') {
+      try {
+        info.currmove = board.parseUci(tokens[i + 1]);
+      } catch {
+        // Ignore moves that are not legal here
+      }
+      i++;
+    } else if (keyword === 'pv') {
+      let end = i + 1;
+      while (end < tokens.length && UCI_MOVE.test(tokens[end])) end++;
+      info.pv = parseLine(board, tokens.slice(i + 1, end));
+      i = end - 1;
+    } else if (keyword === 'string') {
+      info.string = tokens.slice(i + 1).join(' ');
+      break;
+    }
+  }
+
+  return info;
+}
+
+/** Update the latest info of the line an info belongs to */
+function mergeInfo(lines: EngineInfo[], info: EngineInfo): void {
+  const rank = (info.multipv ?? 1) - 1;
+  lines[rank] = { ...lines[rank], ...info };
+}
+
+/**
+ * Client for a UCI engine running as a child process.
+ *
+ * @example
+ * ```typescript
+ * const engine = await UciEngine.spawn('stockfish');
+ * const result = await engine.play(board, { time: 100 });
+ * await engine.quit();
+ * ```
+ */
+export class UciEngine {
+  /** Identification sent by the engine, e.g. name and author */
+  readonly id: Record<string, string> = {};
+
+  /** Options declared by the engine, keyed by lower case name */
+  readonly options = new Map<string, UciOption>();
+
+  /** Values sent to the engine, keyed by lower case name */
+  private readonly config = new Map<string, UciOptionValue>();
+
+  /** The engine process */
+  private readonly process: EngineProcess;
+
+  /** A search is running */
+  private searching = false;
+
+  private constructor(process: EngineProcess) {
+    this.process = process;
+  }
+
+  /**
+   * Start an engine and wait for the uci handshake.
+   * Matches chess.engine.popen_uci()
+   *
+   * @throws EngineError if the engine cannot be started
+   */
+  static async spawn(command: string, args: string[] = []): Promise<UciEngine> {
+    const engine = new UciEngine(new EngineProcess(command, args));
+    await engine.initialize();
+    return engine;
+  }
+
+  private async initialize(): Promise<void> {
+    this.process.send('uci');
+    await this.process.waitFor(line => line === 'uciok', line => this.handshakeLine(line));
+  }
+
+  private handshakeLine(line: string): void {
+    const idMatch = line.match(/^id\s+(\S+)\s+(.*)$/);
+    if (idMatch) {
+      this.id[idMatch[1]] = idMatch[2];
+      return;
+    }
+
+    // option name <name> type <type> [default <x>] [min <x>] [max <x>] [var <x>]*
+    const optionMatch = line.match(/^option\s+name\s+(.+?)\s+type\s+(\S+)(.*)$/);
+    if (!optionMatch) return;
+
+    const option: UciOption = {
+      name: optionMatch[1],
+      type: optionMatch[2] as UciOption['type'],
+      default: null,
+      min: null,
+      max: null,
+      vars: [],
+    };
+    const pattern = /\s(default|min|max|var)(?:\s+(.*?))?(?=\s(?:default|min|max|var)(?:\s|$)|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(optionMatch[3])) !== null) {
+      const value = match[2] === undefined || match[2] === '<empty>' ? '' : match[2];
+      if (match[1] === 'default') option.default = value;
+      else if (match[1] === 'min') option.min = parseInt(value, 10);
+      else if (match[1] === 'max') option.max = parseInt(value, 10);
+      else option.vars.push(value);
+    }
+    this.options.set(option.name.toLowerCase(), option);
+  }
+
+  /** Wait until the engine has processed all commands (isready/readyok) */
+  async ping(): Promise<void> {
+    this.process.send('isready');
+    await this.process.waitFor(line => line === 'readyok');
+  }
+
+  /**
+   * Set engine options. Option names are case insensitive.
+   *
+   * @throws EngineError for options the engine did not declare
+   */
+  async configure(options: Record<string, UciOptionValue>): Promise<void> {
+    for (const [name, value] of Object.entries(options)) {
+      this.setOption(name, value);
+    }
+    await this.ping();
+  }
+
+  private setOption(name: string, value: UciOptionValue): void {
+    const option = this.options.get(name.toLowerCase());
+    if (option === undefined) {
+      throw new EngineError(`Engine does not support option ${name}`);
+    }
+    if (this.config.has(name.toLowerCase()) && this.config.get(name.toLowerCase()) === value) return;
+
+    const text = value === null ? '' : ` value ${value}`;
+    this.process.send(`setoption name ${option.name}${text}`);
+    if (option.type !== 'button') {
+      this.config.set(name.toLowerCase(), value);
+    }
+  }
+
+  /** Tell the engine the next search is from a different game */
+  async newGame(): Promise<void> {
+    this.process.send('ucinewgame');
+    await this.ping();
+  }
+
+  /** Set the options a position needs and send it */
+  private sendPosition(board: Board): void {
+    const uciVariant = (board.constructor as typeof Board).uciVariant;
+    if (this.options.has('uci_variant')) {
+      this.setOption('UCI_Variant', uciVariant);
+    } else if (uciVariant !== 'chess') {
+      throw new EngineError(`Engine does not support variant ${uciVariant}`);
+    }
+    if (this.options.has('uci_chess960')) {
+      this.setOption('UCI_Chess960', board.chess960);
+    } else if (board.chess960) {
+      throw new EngineError('Engine does not support Chess960');
+    }
+
+    const { root, moves } = rootAndMoves(board);
+    const fen = root.fen();
+    let command = fen === STARTING_FEN && uciVariant === 'chess' ? 'position startpos' : `position fen ${fen}`;
+    if (moves.length > 0) {
+      command += ' moves ' + moves.map(move => {
+        const uci = root.uci(move);
+        root.push(move);
+        return uci;
+      }).join(' ');
+    }
+    this.process.send(command);
+  }
+
+  /**
+   * Search a position and resolve with the best move. Info lines are parsed
+   * against the position and passed to options.onInfo.
+   *
+   * @throws EngineError if a search is already running or the engine exits
+   */
+  async go(position: EnginePosition, limit: Limit, options?: UciGoOptions): Promise<PlayResult> {
+    if (this.searching) {
+      throw new EngineError('Engine is already searching');
+    }
+    const board = positionBoard(position);
+
+    // MultiPV applies to this search only
+    if (options?.multipv !== undefined) {
+      this.setOption('MultiPV', options.multipv);
+    } else if (this.config.has('multipv')) {
+      this.setOption('MultiPV', 1);
+    }
+    this.sendPosition(board);
+
+    let command = 'go';
+    if (limit.whiteClock !== undefined) command += ` wtime ${Math.floor(limit.whiteClock)}`;
+    if (limit.blackClock !== undefined) command += ` btime ${Math.floor(limit.blackClock)}`;
+    if (limit.whiteInc !== undefined) command += ` winc ${Math.floor(limit.whiteInc)}`;
+    if (limit.blackInc !== undefined) command += ` binc ${Math.floor(limit.blackInc)}`;
+    if (limit.remainingMoves !== undefined) command += ` movestogo ${limit.remainingMoves}`;
+    if (limit.depth !== undefined) command += ` depth ${limit.depth}`;
+    if (limit.nodes !== undefined) command += ` nodes ${limit.nodes}`;
+    if (limit.mate !== undefined) command += ` mate ${limit.mate}`;
+    if (limit.time !== undefined) command += ` movetime ${Math.floor(limit.time)}`;
+    if (options?.infinite) command += ' infinite';
+    if (options?.searchMoves?.length) {
+      command += ' searchmoves ' + options.searchMoves.map(move => board.uci(move)).join(' ');
+    }
+
+    // Last info of each line, the best one first
+    const lines: EngineInfo[] = [];
+
+    this.searching = true;
+    try {
+      this.process.send(command);
+      const bestmove = await this.process.waitFor(line => /^bestmove(\s|$)/.test(line), line => {
+        if (!line.startsWith('info ')) return;
+        const info = parseUciInfo(line.slice(5), board);
+        mergeInfo(lines, info);
+        options?.onInfo?.(info);
+      });
+      return this.playResult(board, bestmove, lines[0] ?? {});
+    } finally {
+      this.searching = false;
+    }
+  }
+
+  private playResult(board: Board, bestmove: string, info: EngineInfo): PlayResult {
+    const [, best, , ponder] = bestmove.split(/\s+/);
+    const copy = board.copy(false);
+    let move: Move | null = null;
+    let ponderMove: Move | null = null;
+
+    if (best !== undefined && best !== '(none)' && best !== '0000') {
+      try {
+        move = copy.parseUci(best);
+      } catch {
+        throw new EngineError(`Engine sent illegal best move ${best} in ${board.fen()}`);
+      }
+      if (ponder !== undefined) {
+        copy.push(move);
+        try {
+          ponderMove = copy.parseUci(ponder);
+        } catch {
+          // An illegal ponder move is not worth failing for
+        }
+      }
+    }
+    return { move, ponder: ponderMove, info };
+  }
+
+  /** Find the best move within a limit. Matches engine.play() */
+  play(position: EnginePosition, limit: Limit): Promise<PlayResult> {
+    return this.go(position, limit);
+  }
+
+  /**
+   * Analyse a position and resolve with the last info of each line, the
+   * best line first. Matches engine.analyse()
+   */
+  async analyse(position: EnginePosition, limit: Limit, options?: { multipv?: number }): Promise<EngineInfo[]> {
+    const lines: EngineInfo[] = [];
+    await this.go(position, limit, {
+      multipv: options?.multipv,
+      onInfo: info => mergeInfo(lines, info),
+    });
+    return lines.filter(line => line !== undefined);
+  }
+
+  /** Stop the running search, which then resolves with the best move so far */
+  stop(): void {
+    if (this.searching) {
+      this.process.send('stop');
+    }
+  }
+
+  /** Quit the engine and wait for the process to exit */
+  async quit(): Promise<void> {
+    try {
+      this.process.send('quit');
+    } catch {
+      // Already exited
+    }
+    await this.process.close();
+  }
+}
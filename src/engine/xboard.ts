@@ -0,0 +1,452 @@
+/**
+ * XBoard engine client matching python-chess chess.engine.XBoardProtocol
+ *
+ * Spawns an engine binary speaking the Chess Engine Communication Protocol
+ * (CECP), negotiates features with protover 2 and runs searches on positions
+ * replayed with new/force/setboard/usermove. Thinking output enabled with
+ * "post" is parsed into info until the engine sends its move.
+ */
+
+import { Board } from '../chess/board';
+import { Move } from '../chess/move';
+import {
+  EngineError, EngineInfo, EnginePosition, EngineProcess, EngineScore, Limit, PlayResult,
+  positionBoard, rootAndMoves,
+} from './engine';
+
+/** An option declared with feature option="...". Matches chess.engine.Option */
+export interface XBoardOption {
+  /** Name as declared by the engine */
+  name: string;
+
+  type: 'check' | 'spin' | 'slider' | 'combo' | 'button' | 'save' | 'reset' | 'string' | 'file' | 'path';
+
+  /** Default value as sent by the engine, or null */
+  default: string | null;
+
+  /** Bounds of spin and slider options */
+  min: number | null;
+  max: number | null;
+
+  /** Choices of combo options */
+  vars: string[];
+}
+
+/** Value for XBoardEngine.configure(). Buttons take null */
+export type XBoardOptionValue = string | number | boolean | null;
+
+/** Options for XBoardEngine.go() */
+export interface XBoardGoOptions {
+  /** Called for each thinking output line as it arrives */
+  onInfo?: (info: EngineInfo) => void;
+}
+
+/** Milliseconds to wait for feature done=1 after protover 2 */
+const FEATURE_TIMEOUT = 2000;
+
+/** Scores from this value on count as mates, in moves past it */
+const XBOARD_MATE = 100000;
+
+const COORDINATE_MOVE = /^(?:[a-h][1-8][a-h][1-8][pnbrqk]?|[PNBRQK]@[a-h][1-8])$/;
+
+const RESULT = /^(1-0|0-1|1\/2-1\/2|\*)(\s|$)/;
+
+/** Parse a move in coordinate notation or SAN, as engines may send either */
+function parseXBoardMove(board: Board, text: string): Move {
+  if (text === '@@@@') return Move.null();
+  return COORDINATE_MOVE.test(text) ? board.parseUci(text) : board.parseSan(text);
+}
+
+/** Parse the moves of a line, skipping move numbers and stopping at the first illegal one */
+function parseLine(board: Board, tokens: string[]): Move[] {
+  const copy = board.copy(false);
+  const moves: Move[] = [];
+  for (const token of tokens) {
+    const text = token.replace(/^\d+\.+/, '');
+    if (text === '') continue;
+
+    let move: Move;
+    try {
+      move = parseXBoardMove(copy, text);
+    } catch {
+      break;
+    }
+    moves.push(move);
+    copy.push(move);
+  }
+  return moves;
+}
+
+/**
+ * Parse a thinking output line: "ply score time nodes [seldepth nps tbhits\t] pv".
+ * Times are sent in centiseconds. Returns null for other lines.
+ * Matches chess.engine._parse_xboard_post()
+ */
+export function parseXBoardPost(text: string, board: Board): EngineInfo | null {
+  const match = text.match(/^(\d+)[.&]?\s+(-?\d+)\s+(\d+)\s+(\d+)(?:\s+(.*))?$/);
+  if (!match) return null;
+
+  const value = parseInt(match[2], 10);
+  const score: EngineScore = { cp: value, mate: null, bound: null };
+  if (value > XBOARD_MATE) {
+    score.cp = null;
+    score.mate = value - XBOARD_MATE;
+  } else if (value < -XBOARD_MATE) {
+    score.cp = null;
+    score.mate = value + XBOARD_MATE;
+  }
+
+  const info: EngineInfo = {
+    depth: parseInt(match[1], 10),
+    score,
+    time: parseInt(match[3], 10) * 10,
+    nodes: parseInt(match[4], 10),
+  };
+
+  // Newer engines put seldepth, nps and tbhits before a tab
+  let pv = match[5] ?? '';
+  const tab = pv.indexOf('\t');
+  if (tab >= 0) {
+    const [seldepth, nps, tbhits] = pv.slice(0, tab).trim().split(/\s+/).map(field => parseInt(field, 10));
+    if (!Number.isNaN(seldepth)) info.seldepth = seldepth;
+    if (nps !== undefined && !Number.isNaN(nps)) info.nps = nps;
+    if (tbhits !== undefined && !Number.isNaN(tbhits)) info.tbhits = tbhits;
+    pv = pv.slice(tab + 1);
+  }
+  info.pv = parseLine(board, pv.split(/\s+/).filter(token => token !== ''));
+
+  return info;
+}
+
+/** Parse the text of feature option="...": "Name -type [default [min max] | choices]" */
+function parseOption(text: string): XBoardOption | null {
+  const match = text.match(/^(.+?)\s+-(\w+)(?:\s+(.*))?$/);
+  if (!match) return null;
+
+  const option: XBoardOption = {
+    name: match[1],
+    type: match[2] as XBoardOption['type'],
+    default: null,
+    min: null,
+    max: null,
+    vars: [],
+  };
+  const rest = match[3] ?? '';
+  if (option.type === 'spin' || option.type === 'slider') {
+    const [value, min, max] = rest.split(/\s+/);
+    option.default = value ?? null;
+    option.min = min === undefined ? null : parseInt(min, 10);
+    option.max = max === undefined ? null : parseInt(max, 10);
+  } else if (option.type === 'combo') {
+    for (const choice of rest.split('///').map(choice => choice.trim())) {
+      const name = choice.replace(/^\*/, '');
+      if (choice.startsWith('*')) option.default = name;
+      option.vars.push(name);
+    }
+  } else if (rest !== '') {
+    option.default = rest;
+  }
+  return option;
+}
+
+/**
+ * Client for an XBoard (CECP) engine running as a child process.
+ *
+ * @example
+ * ```typescript
+ * const engine = await XBoardEngine.spawn('crafty');
+ * const result = await engine.play(board, { time: 100 });
+ * await engine.quit();
+ * ```
+ */
+export class XBoardEngine {
+  /** Identification sent by the engine (myname as name) */
+  readonly id: Record<string, string> = {};
+
+  /** Features sent by the engine, numbers for numeric values */
+  readonly features: Record<string, string | number> = {};
+
+  /** Options declared by the engine, keyed by lower case name */
+  readonly options = new Map<string, XBoardOption>();
+
+  /** The engine process */
+  private readonly process: EngineProcess;
+
+  /** A search is running */
+  private searching = false;
+
+  /** Number of the last ping sent */
+  private pings = 0;
+
+  private constructor(process: EngineProcess) {
+    this.process = process;
+  }
+
+  /**
+   * Start an engine and wait for the feature negotiation to finish, or
+   * about 2 seconds for engines without it. Matches chess.engine.popen_xboard()
+   *
+   * @throws EngineError if the engine cannot be started
+   */
+  static async spawn(command: string, args: string[] = []): Promise<XBoardEngine> {
+    const engine = new XBoardEngine(new EngineProcess(command, args));
+    await engine.initialize();
+    return engine;
+  }
+
+  private async initialize(): Promise<void> {
+    this.process.send('xboard');
+    this.process.send('protover 2');
+
+    // Engines that send no done=1 within the timeout only speak protocol
+    // version 1 and negotiate nothing. done=0 asks for more time.
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), FEATURE_TIMEOUT);
+    try {
+      const done = await this.process.waitFor(line => /^feature\s.*\bdone=1\b/.test(line), line => {
+        if (/^feature\s.*\bdone=0\b/.test(line)) clearTimeout(timer);
+        this.featureLine(line);
+      }, timeout.signal);
+      this.featureLine(done);
+    } catch (error) {
+      if (!timeout.signal.aborted) throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private featureLine(line: string): void {
+    if (!line.startsWith('feature ')) return;
+
+    const pattern = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+      const [, name, quoted, bare] = match;
+      const value = quoted ?? bare;
+
+      if (name === 'option') {
+        const option = parseOption(value);
+        if (option !== null) this.options.set(option.name.toLowerCase(), option);
+      } else {
+        this.features[name] = /^-?\d+$/.test(value) ? parseInt(value, 10) : value;
+        if (name === 'myname') this.id.name = value;
+      }
+      if (name !== 'done') {
+        this.process.send(`accepted ${name}`);
+      }
+    }
+  }
+
+  /** Wait until the engine has processed all commands (ping/pong) */
+  async ping(): Promise<void> {
+    if (this.features.ping !== 1) return;
+    const n = ++this.pings;
+    this.process.send(`ping ${n}`);
+    await this.process.waitFor(line => line === `pong ${n}`);
+  }
+
+  /**
+   * Set engine options. Option names are case insensitive.
+   *
+   * @throws EngineError for options the engine did not declare
+   */
+  async configure(options: Record<string, XBoardOptionValue>): Promise<void> {
+    for (const [name, value] of Object.entries(options)) {
+      const option = this.options.get(name.toLowerCase());
+      if (option === undefined) {
+        throw new EngineError(`Engine does not support option ${name}`);
+      }
+      if (value === null) {
+        this.process.send(`option ${option.name}`);
+      } else {
+        this.process.send(`option ${option.name}=${typeof value === 'boolean' ? Number(value) : value}`);
+      }
+    }
+    await this.ping();
+  }
+
+  /** Set up a new game in force mode and replay the position */
+  private sendPosition(board: Board): void {
+    const variant = board.chess960 && (board.constructor as typeof Board).xboardVariant === 'normal'
+      ? 'fischerandom'
+      : (board.constructor as typeof Board).xboardVariant;
+    if (variant !== 'normal') {
+      const variants = String(this.features.variants ?? '').split(',');
+      if (!variants.includes(variant)) {
+        throw new EngineError(`Engine does not support variant ${variant}`);
+      }
+    }
+
+    this.process.send('new');
+    if (variant !== 'normal') {
+      this.process.send(`variant ${variant}`);
+    }
+    this.process.send('force');
+
+    const { root, moves } = rootAndMoves(board);
+    if (root.fen() !== (board.constructor as typeof Board).startingFen) {
+      if (this.features.setboard !== 1) {
+        throw new EngineError('Engine does not support setboard');
+      }
+      this.process.send(`setboard ${root.fen()}`);
+    }
+
+    for (const move of moves) {
+      const text = this.features.usermove === 1 ? `usermove ${this.moveText(root, move)}` : this.moveText(root, move);
+      this.process.send(text);
+      root.push(move);
+    }
+  }
+
+  /** A move as the engine expects it: SAN if requested, otherwise coordinates */
+  private moveText(board: Board, move: Move): string {
+    if (move.isNull()) return '@@@@';
+    if (this.features.san === 1) return board.san(move);
+    if (board.chess960 && board.isCastling(move)) {
+      return board.isKingsideCastling(move) ? 'O-O' : 'O-O-O';
+    }
+    return board.uci(move);
+  }
+
+  /** Send the time controls for a search */
+  private sendLimit(board: Board, limit: Limit): void {
+    if (limit.mate !== undefined) {
+      throw new EngineError('XBoard engines do not support mate limits');
+    }
+
+    const clock = board.turn ? limit.whiteClock : limit.blackClock;
+    const opponentClock = board.turn ? limit.blackClock : limit.whiteClock;
+    if (clock !== undefined) {
+      const increment = (board.turn ? limit.whiteInc : limit.blackInc) ?? 0;
+      const seconds = Math.floor(clock / 1000);
+      const base = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+      this.process.send(`level ${limit.remainingMoves ?? 0} ${base} ${increment / 1000}`);
+      this.process.send(`time ${Math.floor(clock / 10)}`);
+      if (opponentClock !== undefined) {
+        this.process.send(`otim ${Math.floor(opponentClock / 10)}`);
+      }
+    }
+
+    if (limit.nodes !== undefined) {
+      if (limit.time !== undefined || clock !== undefined) {
+        throw new EngineError('XBoard engines do not support node limits mixed with time limits');
+      }
+      if (this.features.nps === 0) {
+        throw new EngineError('Engine does not support node limits');
+      }
+      this.process.send(`nps ${limit.nodes}`);
+      this.process.send('st 1');
+    }
+    if (limit.time !== undefined) this.process.send(`st ${limit.time / 1000}`);
+    if (limit.depth !== undefined) this.process.send(`sd ${limit.depth}`);
+  }
+
+  /**
+   * Search a position and resolve with the engine's move. Thinking output
+   * is parsed against the position and passed to options.onInfo.
+   *
+   * @throws EngineError if a search is already running, the engine rejects
+   * a move or exits
+   */
+  async go(position: EnginePosition, limit: Limit, options?: XBoardGoOptions): Promise<PlayResult> {
+    if (this.searching) {
+      throw new EngineError('Engine is already searching');
+    }
+    const board = positionBoard(position);
+
+    this.sendPosition(board);
+    this.process.send('post');
+    this.process.send('easy');
+    this.sendLimit(board, limit);
+
+    // Last thinking output, and whether a draw was offered on the way
+    let info: EngineInfo = {};
+    let drawOffered = false;
+
+    this.searching = true;
+    try {
+      this.process.send('go');
+      const reply = await this.process.waitFor(
+        line => /^(move\s|resign|Illegal move)/.test(line) || RESULT.test(line),
+        line => {
+          if (line === 'offer draw') {
+            drawOffered = true;
+            return;
+          }
+          const post = parseXBoardPost(line, board);
+          if (post === null) return;
+          info = { ...info, ...post };
+          options?.onInfo?.(post);
+        },
+      );
+      return this.playResult(board, reply, info, drawOffered);
+    } finally {
+      this.searching = false;
+    }
+  }
+
+  private playResult(board: Board, reply: string, info: EngineInfo, drawOffered: boolean): PlayResult {
+    if (reply.startsWith('Illegal move')) {
+      throw new EngineError(`Engine rejected the position ${board.fen()}: ${reply}`);
+    }
+
+    const result: PlayResult = { move: null, ponder: null, info, drawOffered };
+    if (reply === 'resign') {
+      result.resigned = true;
+    } else if (reply.startsWith('move ')) {
+      const text = reply.slice(5).trim();
+      try {
+        result.move = parseXBoardMove(board.copy(false), text);
+      } catch {
+        throw new EngineError(`Engine sent illegal move ${text} in ${board.fen()}`);
+      }
+      const ponder = info.pv?.[1];
+      if (ponder !== undefined && info.pv![0].equals(result.move)) {
+        result.ponder = ponder;
+      }
+    }
+    return result;
+  }
+
+  /** Find the best move within a limit. Matches engine.play() */
+  play(position: EnginePosition, limit: Limit): Promise<PlayResult> {
+    return this.go(position, limit);
+  }
+
+  /**
+   * Analyse a position and resolve with the last thinking output. XBoard
+   * has a single line, so there is at most one entry. Matches engine.analyse()
+   */
+  async analyse(position: EnginePosition, limit: Limit): Promise<EngineInfo[]> {
+    const { info } = await this.go(position, limit);
+    return Object.keys(info).length > 0 ? [info] : [];
+  }
+
+  /** Make the engine move now ("?") */
+  stop(): void {
+    if (this.searching) {
+      this.process.send('?');
+    }
+  }
+
+  /**
+   * Tell the engine the game is over, with the result of the position and
+   * a comment naming the termination. Matches engine.send_game_result()
+   */
+  async sendGameResult(position: EnginePosition, comment?: string): Promise<void> {
+    const outcome = positionBoard(position).outcome({ claimDraw: true });
+    const text = comment ?? outcome?.termination.replace(/_/g, ' ') ?? 'game aborted';
+    this.process.send(`result ${outcome?.result() ?? '*'} {${text}}`);
+    await this.ping();
+  }
+
+  /** Quit the engine and wait for the process to exit */
+  async quit(): Promise<void> {
+    try {
+      this.process.send('quit');
+    } catch {
+      // Already exited
+    }
+    await this.process.close();
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * pgn-chess/node
+ *
+ * The core library plus the parts that need Node.js built-ins: opening
+ * book files and external engines running as child processes. The main
+ * entry point stays free of them for browsers and bundlers.
+ *
+ * @example
+ * ```typescript
+ * import { UciEngine, openReader } from 'pgn-chess/node';
+ *
+ * const book = openReader('book.bin');
+ * const engine = await UciEngine.spawn('stockfish');
+ * ```
+ */
+
+import { readFileSync } from 'fs';
+import { PolyglotReader } from './chess/polyglot';
+
+export * from './index';
+
+// External engines (matching python-chess chess.engine)
+export * from './engine';
+
+/**
+ * Open a Polyglot opening book from its contents or a file path.
+ * Matches chess.polyglot.open_reader()
+ */
+export function openReader(source: Uint8Array | string): PolyglotReader {
+  return new PolyglotReader(typeof source === 'string' ? readFileSync(source) : source);
+}
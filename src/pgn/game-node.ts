@@ -60,6 +60,9 @@ export class GameNode {
   
   /** Eval annotation. */
   eval: number | null = null;
+
+  /** Mate eval annotation in moves, negative when black mates ([%eval #-3]). */
+  evalMate: number | null = null;
   
   /** Arrow annotations [%cal ...] */
   arrows: Arrow[] = [];
@@ -91,7 +94,7 @@ export class GameNode {
     
     if (this.parent === null) {
       // Root node - use starting position
-      board = new Board(this.getStartingFen());
+      board = this.getStartingBoard();
     } else {
       // Get parent's board and apply this move
       board = this.parent.board();
@@ -106,6 +109,17 @@ export class GameNode {
     return board;
   }
 
+  /**
+   * Get the starting board for this game tree.
+   * Override in Game class to use the headers.
+   */
+  protected getStartingBoard(): Board {
+    if (this.parent) {
+      return this.parent.getStartingBoard();
+    }
+    return new Board(this.getStartingFen());
+  }
+
   /**
    * Get the starting FEN for this game tree.
    * Override in Game class to use headers["FEN"].
@@ -134,10 +148,14 @@ export class GameNode {
   }
 
   /**
-   * Get the UCI notation of this move.
+   * Get the UCI notation of this move, with castling as king takes rook
+   * in Chess960 games. Matches python-chess node.uci()
+   *
+   * @param chess960 - Override the castling encoding of the game
    */
-  uci(): string | null {
-    return this.move?.uci() ?? null;
+  uci(chess960?: boolean): string | null {
+    if (!this.move || !this.parent) return null;
+    return this.parent.board().uci(this.move, chess960);
   }
 
   // ==========================================================================
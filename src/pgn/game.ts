@@ -5,7 +5,15 @@
  * the game tree with all moves and variations.
  */
 
-import { STARTING_FEN } from '../chess';
+import {
+  Board, STARTING_FEN,
+  STATUS_EMPTY, STATUS_NO_WHITE_KING, STATUS_NO_BLACK_KING, STATUS_TOO_MANY_KINGS,
+  STATUS_TOO_MANY_WHITE_PAWNS, STATUS_TOO_MANY_BLACK_PAWNS, STATUS_PAWNS_ON_BACKRANK,
+  STATUS_TOO_MANY_WHITE_PIECES, STATUS_TOO_MANY_BLACK_PIECES,
+  STATUS_BAD_CASTLING_RIGHTS, STATUS_INVALID_EP_SQUARE, STATUS_OPPOSITE_CHECK,
+  STATUS_RACE_CHECK, STATUS_RACE_OVER, STATUS_RACE_MATERIAL,
+  STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+} from '../chess';
 import { GameNode } from './game-node';
 import { Headers } from './headers';
 
@@ -19,6 +27,39 @@ export interface GameError {
   fen?: string;
 }
 
+/** Descriptions of the Board.status() flags */
+const STATUS_MESSAGES: [number, string][] = [
+  [STATUS_EMPTY, 'empty board'],
+  [STATUS_NO_WHITE_KING, 'no white king'],
+  [STATUS_NO_BLACK_KING, 'no black king'],
+  [STATUS_TOO_MANY_KINGS, 'too many kings'],
+  [STATUS_TOO_MANY_WHITE_PAWNS, 'too many white pawns'],
+  [STATUS_TOO_MANY_BLACK_PAWNS, 'too many black pawns'],
+  [STATUS_PAWNS_ON_BACKRANK, 'pawns on the back rank'],
+  [STATUS_TOO_MANY_WHITE_PIECES, 'too many white pieces'],
+  [STATUS_TOO_MANY_BLACK_PIECES, 'too many black pieces'],
+  [STATUS_BAD_CASTLING_RIGHTS, 'bad castling rights'],
+  [STATUS_INVALID_EP_SQUARE, 'invalid en passant square'],
+  [STATUS_OPPOSITE_CHECK, 'side not to move is in check'],
+  [STATUS_RACE_CHECK, 'check in racing kings'],
+  [STATUS_RACE_OVER, 'race is already over'],
+  [STATUS_RACE_MATERIAL, 'invalid racing kings material'],
+  [STATUS_TOO_MANY_CHECKERS, 'too many checkers'],
+  [STATUS_IMPOSSIBLE_CHECK, 'impossible check'],
+];
+
+/**
+ * Errors for the problems of a starting position, one per Board.status()
+ * flag, or none if the position is valid.
+ */
+export function setupErrors(board: Board): GameError[] {
+  const status = board.status();
+  const fen = board.fen();
+  return STATUS_MESSAGES
+    .filter(([flag]) => status & flag)
+    .map(([, message]) => ({ message: `Invalid starting position: ${message}`, fen }));
+}
+
 /**
  * Root node of a game tree.
  * Matches python-chess chess.pgn.Game.
@@ -52,6 +93,29 @@ export class Game extends GameNode {
     return this.headers.get('FEN') ?? STARTING_FEN;
   }
 
+  /**
+   * Get the starting board for this game, honoring the FEN and Variant headers.
+   */
+  protected override getStartingBoard(): Board {
+    return this.headers.board();
+  }
+
+  /**
+   * Whether this is a Chess960 game, based on the Variant header.
+   * Setting it adds or removes [Variant "Chess960"].
+   */
+  get chess960(): boolean {
+    return this.headers.isChess960();
+  }
+
+  set chess960(value: boolean) {
+    if (value) {
+      this.headers.set('Variant', 'Chess960');
+    } else if (this.headers.isChess960()) {
+      this.headers.delete('Variant');
+    }
+  }
+
   /**
    * Set up a game with default Seven Tag Roster.
    */
@@ -67,21 +131,55 @@ export class Game extends GameNode {
     return game;
   }
 
+  /**
+   * Set the starting position, updating the FEN, SetUp and Variant headers.
+   * A FEN string is played as Chess960 if its castling rights need it.
+   * Matches python-chess game.setup()
+   */
+  setup(board: Board | string): void {
+    let setup: Board;
+    if (typeof board === 'string') {
+      setup = new Board(board);
+      setup.chess960 = setup.hasChess960CastlingRights();
+    } else {
+      setup = board;
+    }
+
+    const VariantBoard = setup.constructor as typeof Board;
+    const fen = setup.fen();
+    if (fen === VariantBoard.startingFen) {
+      this.headers.delete('FEN');
+      this.headers.delete('SetUp');
+    } else {
+      this.headers.set('FEN', fen);
+      this.headers.set('SetUp', '1');
+    }
+
+    if (VariantBoard.aliases[0] !== 'Standard') {
+      this.headers.set('Variant', VariantBoard.aliases[0]);
+    } else {
+      this.chess960 = setup.chess960;
+    }
+  }
+
   /**
    * Create a game from a FEN position.
+   * Problems with the position (see Board.status()) are added to errors.
    */
   static fromFen(fen: string): Game {
     const game = Game.withDefaults();
-    game.headers.set('FEN', fen);
-    game.headers.set('SetUp', '1');
+    game.setup(fen);
+    game.errors.push(...setupErrors(game.headers.board()));
     return game;
   }
 
   /**
    * Create a game from board position at a node.
    */
-  static fromBoard(board: import('../chess').Board): Game {
-    return Game.fromFen(board.fen());
+  static fromBoard(board: Board): Game {
+    const game = Game.withDefaults();
+    game.setup(board);
+    return game;
   }
 
   /**
@@ -102,7 +200,7 @@ export class Game extends GameNode {
     }
 
     // Export moves
-    const moveText = this.exportMoves(this, true, 1);
+    const moveText = this.exportMoves(this, false);
     
     // Wrap text to columns
     if (columns > 0) {
@@ -120,7 +218,7 @@ export class Game extends GameNode {
     return lines.join('\n');
   }
 
-  private exportMoves(node: GameNode, isMainline: boolean, moveNumber: number): string {
+  private exportMoves(node: GameNode, forceNumber: boolean): string {
     const parts: string[] = [];
 
     // Game comment (for root node)
@@ -128,63 +226,72 @@ export class Game extends GameNode {
       parts.push(`{${node.comment}}`);
     }
 
-    for (let i = 0; i < node.variations.length; i++) {
-      const variation = node.variations[i];
-      const isFirst = i === 0;
-      const isMain = isMainline && isFirst;
+    const main = node.variations[0];
+    if (main === undefined) {
+      return parts.join(' ');
+    }
 
-      // Starting comment
-      if (variation.startingComment) {
-        parts.push(`{${variation.startingComment}}`);
-      }
+    const board = node.board();
 
-      // Move number
-      const board = node.board();
-      const isWhite = board.turn;
-      
-      if (isFirst) {
-        if (isWhite) {
-          parts.push(`${moveNumber}.`);
-        } else if (node === this) {
-          parts.push(`${moveNumber}...`);
-        }
-      } else {
-        // Start of a variation
-        parts.push('(');
-        if (isWhite) {
-          parts.push(`${moveNumber}.`);
-        } else {
-          parts.push(`${moveNumber}...`);
-        }
-      }
+    // The main move, then its alternatives, then the rest of the line
+    parts.push(this.exportMove(board, main, forceNumber || node === this));
 
-      // The move itself
-      if (variation.move) {
-        const san = board.san(variation.move);
-        parts.push(san);
+    for (const variation of node.variations.slice(1)) {
+      parts.push('(');
+      parts.push(this.exportMove(board, variation, true));
+      const continuation = this.exportMoves(variation, false);
+      if (continuation) {
+        parts.push(continuation);
       }
+      parts.push(')');
+    }
 
-      // NAGs
-      for (const nag of variation.nags) {
-        parts.push(`$${nag}`);
-      }
+    // Black's move needs its number again after a variation
+    const continuation = this.exportMoves(main, node.variations.length > 1);
+    if (continuation) {
+      parts.push(continuation);
+    }
 
-      // Comment after move
-      if (variation.comment) {
-        parts.push(`{${variation.comment}}`);
-      }
+    return parts.join(' ');
+  }
 
-      // Recursively export the continuation
-      const nextMoveNumber = isWhite ? moveNumber : moveNumber + 1;
-      const continuation = this.exportMoves(variation, isMain, nextMoveNumber);
-      if (continuation) {
-        parts.push(continuation);
-      }
+  private exportMove(board: Board, node: GameNode, forceNumber: boolean): string {
+    const parts: string[] = [];
 
-      // Close variation parenthesis
-      if (!isFirst) {
-        parts.push(')');
-      }
+    // Starting comment
+    if (node.startingComment) {
+      parts.push(`{${node.startingComment}}`);
+    }
+
+    // Move number, from the board so games set up from a FEN keep theirs
+    if (board.turn) {
+      parts.push(`${board.fullmoveNumber}.`);
+    } else if (forceNumber) {
+      parts.push(`${board.fullmoveNumber}...`);
+    }
+
+    // The move itself
+    if (node.move) {
+      parts.push(board.san(node.move));
+    }
+
+    // NAGs
+    for (const nag of node.nags) {
+      parts.push(`$${nag}`);
+    }
+
+    // Comment after move, with the eval as a [%eval] command
+    const comment: string[] = [];
+    if (node.evalMate !== null && Number.isFinite(node.evalMate)) {
+      comment.push(`[%eval #${node.evalMate}]`);
+    } else if (node.eval !== null && Number.isFinite(node.eval)) {
+      comment.push(`[%eval ${node.eval.toFixed(2)}]`);
+    }
+    if (node.comment) {
+      comment.push(node.comment);
+    }
+    if (comment.length > 0) {
+      parts.push(`{${comment.join(' ')}}`);
     }
 
     return parts.join(' ');
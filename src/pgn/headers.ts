@@ -3,11 +3,16 @@
  * Matches python-chess game.headers behavior.
  */
 
+import { Board, findVariant } from '../chess';
+
 /** Standard Seven Tag Roster tags */
 export const STR_TAGS = [
   'Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'
 ] as const;
 
+/** Variant header values for Chess960, compared lowercase */
+const CHESS960_VARIANTS = ['chess960', 'chess 960', 'fischerandom', 'fischerrandom', 'fischer random'];
+
 /**
  * PGN game headers - a Map-like container for PGN tags.
  * Matches python-chess game.headers behavior.
@@ -125,5 +130,39 @@ export class Headers implements Iterable<[string, string]> {
   /** Get FEN if present (for games from a position) */
   get fen(): string | undefined { return this.get('FEN'); }
   set fen(value: string | undefined) { if (value !== undefined) this.set('FEN', value); else this.delete('FEN'); }
+
+  /** Get the Variant tag if present */
+  get variant(): string | undefined { return this.get('Variant'); }
+  set variant(value: string | undefined) { if (value !== undefined) this.set('Variant', value); else this.delete('Variant'); }
+
+  /** Check if the Variant tag names Chess960. Matches headers.is_chess960() */
+  isChess960(): boolean {
+    const variant = this.get('Variant');
+    return variant !== undefined && CHESS960_VARIANTS.includes(variant.toLowerCase());
+  }
+
+  /**
+   * Get the board class for the Variant tag (Board for standard chess and
+   * Chess960). Throws for unsupported variants. Matches headers.variant()
+   */
+  variantBoard(): typeof Board {
+    const variant = this.get('Variant');
+    if (variant === undefined || this.isChess960()) {
+      return Board;
+    }
+    return findVariant(variant);
+  }
+
+  /**
+   * Create the starting board described by the FEN and Variant tags.
+   * Castling rights that only exist in Chess960 enable it as well.
+   * Matches python-chess headers.board()
+   */
+  board(): Board {
+    const VariantBoard = this.variantBoard();
+    const board = new VariantBoard(this.get('FEN') ?? VariantBoard.startingFen, { chess960: this.isChess960() });
+    board.chess960 = board.chess960 || board.hasChess960CastlingRights();
+    return board;
+  }
 }
 
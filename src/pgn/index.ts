@@ -12,6 +12,18 @@ export { Game, GameError } from './game';
 export { Headers } from './headers';
 export { buildGameTree } from './tree-builder';
 
+// Comments, tag pairs, or a drop followed by a check or mate marker
+const DROP_CHECK = /(\{[^}]*\}|;[^\n]*|\[\s*\w+\s+"(?:[^"\\]|\\.)*"\s*\])|([PNBRQK]?@[a-h][1-8])[+#]/g;
+
+/**
+ * Remove check and mate markers after drops (e.g. "N@e2+") in the movetext,
+ * which the parser rejects. They are recomputed from the board when
+ * exporting. Comments and tag pairs are left as they are.
+ */
+function stripDropChecks(pgn: string): string {
+  return pgn.replace(DROP_CHECK, (match, skipped: string | undefined, drop: string | undefined) => skipped ?? drop!);
+}
+
 /**
  * Read a single game from a PGN string.
  * Matches python-chess chess.pgn.read_game()
@@ -41,7 +53,7 @@ export function readGame(pgn: string): Game | null {
   }
 
   try {
-    const parseTree = parseGame(trimmed, { startRule: 'game' });
+    const parseTree = parseGame(stripDropChecks(trimmed), { startRule: 'game' });
     return buildGameTree(parseTree);
   } catch (error) {
     // If parsing fails, return null like python-chess
@@ -70,7 +82,7 @@ export function readGames(pgn: string): Game[] {
   }
 
   try {
-    const parseTrees = parseGamesOriginal(trimmed, { startRule: 'games' });
+    const parseTrees = parseGamesOriginal(stripDropChecks(trimmed), { startRule: 'games' });
     return parseTrees.map(pt => buildGameTree(pt));
   } catch {
     return [];
@@ -2,10 +2,10 @@
  * Tree builder - converts the existing ParseTree output to the new Game tree.
  */
 
-import { Board, Move, parseSquare, QUEEN, ROOK, BISHOP, KNIGHT } from '../chess';
+import { Board, Move, parseSquare, QUEEN, ROOK, BISHOP, KNIGHT, KING } from '../chess';
 import type { ParseTree } from '@mliebelt/pgn-parser';
 import type { PgnMove } from '@mliebelt/pgn-types';
-import { Game, GameError } from './game';
+import { Game, GameError, setupErrors } from './game';
 import { GameNode } from './game-node';
 
 /**
@@ -36,9 +36,21 @@ export function buildGameTree(parseTree: ParseTree): Game {
     }
   }
 
-  // Get starting position
-  const startingFen = game.headers.get('FEN');
-  const board = new Board(startingFen);
+  // Get starting position (FEN and Variant headers)
+  let board: Board;
+  try {
+    board = game.headers.board();
+  } catch (e) {
+    game.errors.push({ message: e instanceof Error ? e.message : String(e) });
+    return game;
+  }
+
+  // Moves from an impossible position would only build a meaningless tree
+  const setup = setupErrors(board);
+  if (setup.length > 0) {
+    game.errors.push(...setup);
+    return game;
+  }
 
   // Build the move tree
   if (parseTree.moves && parseTree.moves.length > 0) {
@@ -119,7 +131,11 @@ function buildMoveTree(
       }
       if (pgnMove.commentDiag.eval !== undefined) {
         const evalValue = pgnMove.commentDiag.eval;
-        newNode.eval = typeof evalValue === 'number' ? evalValue : parseFloat(String(evalValue));
+        if (typeof evalValue === 'string' && evalValue.startsWith('#')) {
+          newNode.evalMate = parseInt(evalValue.slice(1), 10);
+        } else {
+          newNode.eval = typeof evalValue === 'number' ? evalValue : parseFloat(String(evalValue));
+        }
       }
       if (pgnMove.commentDiag.colorArrows) {
         newNode.arrows = parseArrows(pgnMove.commentDiag.colorArrows);
@@ -132,8 +148,9 @@ function buildMoveTree(
     // Add to parent's variations
     currentNode.variations.push(newNode);
 
-    // Save FEN before applying the move (for variations that branch from here)
-    const fenBeforeThisMove = currentBoard.fen();
+    // Save the position before applying the move (for variations that branch from here)
+    const boardBeforeThisMove = currentBoard.copy(false);
+    const fenBeforeThisMove = boardBeforeThisMove.fen();
 
     // Apply the move to the board
     currentBoard.push(move);
@@ -146,9 +163,8 @@ function buildMoveTree(
       for (const variationMoves of pgnMove.variations) {
         if (variationMoves && variationMoves.length > 0) {
           // Build variation from the position BEFORE this move was made
-          // Use FEN to create a fresh board (since copy() doesn't preserve move stack)
-          const varBoard = new Board(fenBeforeThisMove);
-          buildMoveTree(currentNode, variationMoves, varBoard, errors, fenBeforeThisMove);
+          // Copy the board, which keeps its Chess960 mode, for the sideline
+          buildMoveTree(currentNode, variationMoves, boardBeforeThisMove, errors, fenBeforeThisMove);
         }
       }
     }
@@ -185,12 +201,7 @@ function parseMove(pgnMove: PgnMove, board: Board): Move {
 
   // Handle drop (Crazyhouse)
   if (notation.drop) {
-    const toSquare = parseSquare(notation.col + notation.row);
-    if (toSquare === null) {
-      throw new Error(`Invalid drop square: ${notation.col}${notation.row}`);
-    }
-    const pieceType = { 'P': 1, 'N': 2, 'B': 3, 'R': 4, 'Q': 5, 'K': 6 }[notation.fig ?? 'P'] as 1|2|3|4|5|6;
-    return new Move(0, toSquare, null, pieceType);
+    return board.parseSan(`${notation.fig ?? 'P'}@${notation.col}${notation.row}`);
   }
 
   // Use the board to parse the move (handles disambiguation properly)
@@ -231,7 +242,7 @@ function parseMove(pgnMove: PgnMove, board: Board): Move {
       // Check promotion
       if (notation.promotion) {
         const promPiece = notation.promotion.replace('=', '').toUpperCase();
-        const promType = { 'N': KNIGHT, 'B': BISHOP, 'R': ROOK, 'Q': QUEEN }[promPiece];
+        const promType = { 'N': KNIGHT, 'B': BISHOP, 'R': ROOK, 'Q': QUEEN, 'K': KING }[promPiece];
         if (move.promotion !== promType) continue;
       } else if (move.promotion) {
         continue;
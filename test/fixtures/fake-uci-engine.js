@@ -0,0 +1,102 @@
+/**
+ * Scripted stand-in for a UCI engine, used by test-engine.ts
+ *
+ * It knows no chess: from the starting position it follows a fixed opening
+ * line, and for any position set up from a FEN it reports being mated.
+ * Positions off the line get a score but no moves. An optional JSON
+ * argument maps the moves of a position ("e2e4 e7e5") to its final score
+ * in centipawns or as "mate N", or to null to send no scores at all.
+ * Run with node; loading it as a module does nothing.
+ */
+
+const readline = require("readline");
+
+const LINE = ["e2e4", "e7e5", "g1f3", "b8c6", "f1b5", "a7a6"];
+const ALTERNATIVES = ["d2d4", "c2c4", "g1f3"];
+const SCORES = JSON.parse(process.argv[2] || "{}");
+
+function main() {
+  const send = line => process.stdout.write(line + "\n");
+  const options = {};
+  let position = "";
+  let pending = null;
+
+  const search = (moves, mated) => {
+    send(`info string ${position}`);
+    send(`info string options ${JSON.stringify(options)}`);
+    if (mated) {
+      send("info depth 0 score mate 0");
+      return "bestmove (none)";
+    }
+
+    const scored = SCORES[moves] !== null;
+    const score = !(moves in SCORES) ? "cp 40 lowerbound"
+      : typeof SCORES[moves] === "string" ? SCORES[moves] : `cp ${SCORES[moves]}`;
+    const ply = moves ? moves.split(" ").length : 0;
+    if (LINE.slice(0, ply).join(" ") !== moves) {
+      send(`info depth 4${scored ? ` score ${score}` : ""} nodes 5000`);
+      return "bestmove (none)";
+    }
+
+    const pv = LINE.slice(ply);
+    const multipv = parseInt(options.MultiPV || "1", 10);
+    for (let depth = 1; depth <= 3; depth++) {
+      send(`info depth ${depth} currmove ${pv[0]} currmovenumber 1`);
+      for (let rank = 1; rank <= multipv; rank++) {
+        const line = rank === 1 ? pv.slice(0, depth) : [ALTERNATIVES[rank - 2]];
+        send(`info depth ${depth} seldepth ${depth + 2} multipv ${rank}` +
+             (scored ? ` score cp ${30 - 10 * rank + depth}` : "") +
+             ` nodes ${1000 * depth} nps 100000 time ${10 * depth} hashfull 1 pv ${line.join(" ")}`);
+      }
+    }
+    send(`info depth 4 seldepth 6${scored ? ` score ${score}` : ""} nodes 5000`);
+    return `bestmove ${pv[0]}` + (pv.length > 1 ? ` ponder ${pv[1]}` : "");
+  };
+
+  readline.createInterface({ input: process.stdin }).on("line", input => {
+    const [command, ...args] = input.trim().split(/\s+/);
+    switch (command) {
+      case "uci":
+        send("id name Fake Engine");
+        send("id author pgn-chess tests");
+        send("option name Hash type spin default 16 min 1 max 1024");
+        send("option name MultiPV type spin default 1 min 1 max 4");
+        send("option name UCI_Chess960 type check default false");
+        send("option name Style type combo default Normal var Solid var Normal var Risky");
+        send("option name Clear Hash type button");
+        send("uciok");
+        break;
+      case "isready":
+        send("readyok");
+        break;
+      case "setoption": {
+        const match = input.match(/^setoption name (.+?)(?: value (.*))?$/);
+        if (match) options[match[1]] = match[2] === undefined ? null : match[2];
+        break;
+      }
+      case "position":
+        position = input;
+        break;
+      case "go": {
+        const moves = position.split(" moves ")[1] || "";
+        const bestmove = search(moves, !position.startsWith("position startpos"));
+        if (args.includes("infinite")) {
+          pending = bestmove;
+        } else {
+          send(bestmove);
+        }
+        break;
+      }
+      case "stop":
+        if (pending !== null) send(pending);
+        pending = null;
+        break;
+      case "quit":
+        process.exit(0);
+    }
+  });
+}
+
+if (require.main === module) {
+  main();
+}
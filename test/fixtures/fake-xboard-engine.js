@@ -0,0 +1,103 @@
+/**
+ * Scripted stand-in for an XBoard engine, used by test-engine.ts
+ *
+ * It knows no chess: from the starting position it follows a fixed opening
+ * line, posting its thinking in SAN and answering in coordinates. Off the
+ * line it resigns, and for a position set up with setboard it reports
+ * being mated. Without a depth or time limit it thinks until "?". With
+ * the argument "protover1" it ignores protover 2 like an old engine and
+ * takes moves without usermove.
+ * Run with node; loading it as a module does nothing.
+ */
+
+const readline = require("readline");
+
+const LINE = ["e2e4", "e7e5", "g1f3", "b8c6", "f1b5", "a7a6"];
+const LINE_SAN = ["e4", "e5", "Nf3", "Nc6", "Bb5", "a6"];
+const PROTOVER_1 = process.argv[2] === "protover1";
+
+/** SAN moves from a ply, with move numbers */
+function numbered(ply, moves) {
+  return moves.map((san, i) => {
+    const at = ply + i;
+    if (at % 2 === 0) return `${at / 2 + 1}. ${san}`;
+    return i === 0 ? `${(at + 1) / 2}... ${san}` : san;
+  }).join(" ");
+}
+
+function main() {
+  const send = line => process.stdout.write(line + "\n");
+  let moves = [];
+  let setboard = false;
+  let depth = null;
+  let timed = false;
+  let pending = null;
+
+  readline.createInterface({ input: process.stdin }).on("line", input => {
+    const [command, ...args] = input.trim().split(/\s+/);
+    switch (command) {
+      case "protover":
+        if (PROTOVER_1) break;
+        send("feature done=0");
+        send('feature myname="Fake XBoard Engine" ping=1 setboard=1 usermove=1 san=0 variants="normal,crazyhouse"');
+        send('feature option="Hash -spin 16 1 1024" option="Style -combo Solid /// *Normal /// Risky"');
+        send("feature done=1");
+        break;
+      case "ping":
+        send(`pong ${args[0]}`);
+        break;
+      case "new":
+        moves = [];
+        setboard = false;
+        depth = null;
+        timed = false;
+        break;
+      case "setboard":
+        setboard = true;
+        break;
+      case "usermove":
+        moves.push(args[0]);
+        break;
+      case "sd":
+        depth = parseInt(args[0], 10);
+        break;
+      case "st":
+        timed = true;
+        break;
+      case "go": {
+        const ply = moves.length;
+        if (setboard) {
+          send("1-0 {White mates}");
+          break;
+        }
+        if (LINE.slice(0, ply).join(" ") !== moves.join(" ")) {
+          send("resign");
+          break;
+        }
+        for (let d = 1; d <= (depth ?? 3); d++) {
+          send(`${d} ${20 + d} ${d} ${1000 * d} ${numbered(ply, LINE_SAN.slice(ply, ply + d))}`);
+        }
+        if (ply === 2) send("offer draw");
+        if (depth === null && !timed) {
+          pending = `move ${LINE[ply]}`;
+        } else {
+          send(`move ${LINE[ply]}`);
+        }
+        break;
+      }
+      case "?":
+        if (pending !== null) send(pending);
+        pending = null;
+        break;
+      case "quit":
+        process.exit(0);
+        break;
+      default:
+        if (PROTOVER_1 && /^[a-h][1-8][a-h][1-8]/.test(command)) moves.push(command);
+    }
+  });
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,666 @@
+/**
+ * Tests for Board position features (matching python-chess)
+ */
+
+import { test, suite } from "uvu";
+import assert from "uvu/assert";
+import {
+  readGame, Game, Board, Move, SquareSet, Termination, WHITE, BLACK, STARTING_FEN, zobristHash, FenError,
+  E1, G1, D2, E2, H2, F3, D4, E4, H4, B4, D5, E5, G5, C6, E7, BB_ALL, BB_SQUARES, BB_RANK_4,
+  STATUS_VALID, STATUS_EMPTY, STATUS_NO_WHITE_KING, STATUS_NO_BLACK_KING, STATUS_TOO_MANY_KINGS,
+  STATUS_TOO_MANY_WHITE_PAWNS, STATUS_PAWNS_ON_BACKRANK, STATUS_BAD_CASTLING_RIGHTS,
+  STATUS_INVALID_EP_SQUARE, STATUS_OPPOSITE_CHECK, STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+} from "../src";
+
+const CHESS960_FEN = "1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R2K1R1 w GBgb - 0 1";
+
+// =============================================================================
+// Zobrist Hashing
+// =============================================================================
+
+const hashing = suite("Zobrist hashing");
+
+const POLYGLOT_KEYS: Array<[string[], bigint]> = [
+  [[], 0x463b96181691fc9cn],
+  [["e2e4"], 0x823c9b50fd114196n],
+  [["e2e4", "d7d5"], 0x0756b94461c50fb0n],
+  [["e2e4", "d7d5", "e4e5"], 0x662fafb965db29d4n],
+  [["e2e4", "d7d5", "e4e5", "f7f5"], 0x22a48b5a8e47ff78n],
+  [["e2e4", "d7d5", "e4e5", "f7f5", "e1e2"], 0x652a607ca3f242c1n],
+  [["e2e4", "d7d5", "e4e5", "f7f5", "e1e2", "e8f7"], 0x00fdd303c946bdd9n],
+  [["a2a4", "b7b5", "h2h4", "b5b4", "c2c4"], 0x3c8123ea7b067637n],
+  [["a2a4", "b7b5", "h2h4", "b5b4", "c2c4", "b4c3", "a1a3"], 0x5c3f9b829b279560n],
+];
+
+hashing("zobristHash() should match the Polyglot reference keys", () => {
+  for (const [moves, key] of POLYGLOT_KEYS) {
+    const board = new Board();
+    for (const uci of moves) {
+      board.pushUci(uci);
+    }
+    assert.is(board.zobristHash(), key, moves.join(" "));
+    assert.is(zobristHash(board), key, moves.join(" "));
+  }
+});
+
+hashing("pop() should restore the incremental key", () => {
+  const board = new Board();
+  const key = board.zobristHash();
+  board.pushSan("e4");
+  board.pushSan("e5");
+  board.pushSan("Ke2");
+  board.pop();
+  board.pop();
+  board.pop();
+  assert.is(board.zobristHash(), key);
+});
+
+hashing("should detect transpositions across variations", () => {
+  const game = readGame("1. e4 e5 2. Nf3 (2. Bc4 Nc6 3. Nf3) 2... Nc6 3. Bc4 *");
+  assert.ok(game);
+
+  const mainline = game!.end();
+  const sideline = game!.variations[0].variations[0].variations[1].end();
+  assert.is(mainline.san(), "Bc4");
+  assert.is(sideline.san(), "Nf3");
+  assert.is(mainline.board().zobristHash(), sideline.board().zobristHash());
+});
+
+hashing("Chess960 castling rights should be hashed for rooks on any file", () => {
+  const inner = new Board(CHESS960_FEN, { chess960: true });
+  assert.is.not(inner.zobristHash(), new Board("1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R2K1R1 w - - 0 1", { chess960: true }).zobristHash());
+  assert.is(zobristHash(inner), inner.zobristHash());
+
+  const both = new Board("1r1k3r/8/8/8/8/8/8/R2K2R1 w AGbh - 0 1", { chess960: true });
+  const outer = new Board("1r1k3r/8/8/8/8/8/8/R2K2R1 w Ah - 0 1", { chess960: true });
+  assert.is.not(both.zobristHash(), outer.zobristHash());
+});
+
+hashing.run();
+
+// =============================================================================
+// Repetitions and Draw Claims
+// =============================================================================
+
+const drawClaims = suite("Repetition and draw claims");
+
+function playSan(board: Board, moves: string): Board {
+  for (const san of moves.split(" ")) {
+    board.pushSan(san);
+  }
+  return board;
+}
+
+drawClaims("isRepetition() should count repeated positions", () => {
+  const board = playSan(new Board(), "Nf3 Nf6 Ng1 Ng8");
+  assert.is(board.isRepetition(2), true);
+  assert.is(board.isRepetition(3), false);
+
+  playSan(board, "Nf3 Nf6 Ng1 Ng8");
+  assert.is(board.isRepetition(3), true);
+  assert.is(board.canClaimThreefoldRepetition(), true);
+  assert.is(board.canClaimDraw(), true);
+  assert.is(board.isFivefoldRepetition(), false);
+
+  playSan(board, "Nf3 Nf6 Ng1 Ng8 Nf3 Nf6 Ng1 Ng8");
+  assert.is(board.isFivefoldRepetition(), true);
+});
+
+drawClaims("canClaimThreefoldRepetition() should consider the next move", () => {
+  const board = playSan(new Board(), "Nf3 Nf6 Ng1 Ng8 Nf3 Nf6 Ng1");
+  assert.is(board.isRepetition(3), false);
+  assert.is(board.canClaimThreefoldRepetition(), true);
+});
+
+drawClaims("irreversible moves should reset repetition history", () => {
+  const board = playSan(new Board(), "Nf3 Nf6 Ng1 Ng8 e4 e5 Nf3 Nf6 Ng1 Ng8");
+  assert.is(board.isRepetition(3), false);
+  assert.is(board.canClaimThreefoldRepetition(), false);
+});
+
+drawClaims("en passant rights should distinguish positions only when legal", () => {
+  // After 1. e4 (no black pawn can capture), the ep square does not matter
+  const board = playSan(new Board("4k3/8/8/8/8/8/4P3/4K2N w - - 0 1"), "e4 Kd7 Ng3 Ke8 Nh1 Kd7 Ng3 Ke8 Nh1");
+  assert.is(board.isRepetition(3), true);
+
+  // A legal en passant capture makes the first occurrence different
+  const ep = playSan(new Board("4k3/8/8/8/3p4/8/4P3/4K2N w - - 0 1"), "e4 Kd7 Ng3 Ke8 Nh1 Kd7 Ng3 Ke8 Nh1");
+  assert.is(ep.isRepetition(3), false);
+  assert.is(ep.isRepetition(2), true);
+});
+
+drawClaims("fifty and seventy-five move rules", () => {
+  const board = new Board("4k3/8/8/8/8/8/8/4K2R w - - 99 80");
+  assert.is(board.isFiftyMoves(), false);
+  assert.is(board.canClaimFiftyMoves(), true);
+
+  board.pushSan("Rh2");
+  assert.is(board.isFiftyMoves(), true);
+  assert.is(board.isSeventyfiveMoves(), false);
+
+  assert.is(new Board("4k3/8/8/8/8/8/8/4K2R w - - 150 100").isSeventyfiveMoves(), true);
+});
+
+drawClaims("node boards should carry the move history", () => {
+  const game = readGame("1. Nf3 Nf6 2. Ng1 Ng8 3. Nf3 Nf6 4. Ng1 Ng8 *");
+  assert.ok(game);
+  assert.is(game!.end().board().isRepetition(3), true);
+  assert.is(game!.end().board().moveStack.length, 8);
+});
+
+drawClaims("copy(n) should keep at most the last n moves", () => {
+  const board = playSan(new Board(), "Nf3 Nf6 Ng1");
+  assert.equal(board.copy(2).moveStack.map(move => move.uci()), ["g8f6", "f3g1"]);
+  assert.equal(board.copy(5).moveStack.map(move => move.uci()), ["g1f3", "g8f6", "f3g1"]);
+  assert.is(board.copy(0).moveStack.length, 0);
+  assert.is(board.copy(false).moveStack.length, 0);
+});
+
+drawClaims.run();
+
+// =============================================================================
+// Outcome
+// =============================================================================
+
+const outcomes = suite("Board.outcome()");
+
+outcomes("should report checkmate with the winner", () => {
+  const board = playSan(new Board(), "f3 e5 g4 Qh4");
+  const outcome = board.outcome();
+  assert.ok(outcome);
+  assert.is(outcome!.termination, Termination.CHECKMATE);
+  assert.is(outcome!.winner, BLACK);
+  assert.is(outcome!.result(), "0-1");
+  assert.is(board.result(), "0-1");
+  assert.is(board.isGameOver(), true);
+});
+
+outcomes("should report stalemate and insufficient material as draws", () => {
+  const stalemate = new Board("7k/5Q2/6K1/8/8/8/8/8 b - - 0 1");
+  assert.is(stalemate.outcome()!.termination, Termination.STALEMATE);
+  assert.is(stalemate.result(), "1/2-1/2");
+
+  const bare = new Board("8/8/4k3/8/8/2K5/8/8 w - - 0 1");
+  assert.is(bare.outcome()!.termination, Termination.INSUFFICIENT_MATERIAL);
+});
+
+outcomes("should only end on claimable draws with claimDraw", () => {
+  const board = playSan(new Board(), "Nf3 Nf6 Ng1 Ng8 Nf3 Nf6 Ng1 Ng8");
+  assert.is(board.outcome(), null);
+  assert.is(board.result(), "*");
+  assert.is(board.isGameOver(), false);
+  assert.is(board.outcome({ claimDraw: true })!.termination, Termination.THREEFOLD_REPETITION);
+
+  const fifty = new Board("4k3/8/8/8/8/8/8/4K2R w - - 100 80");
+  assert.is(fifty.isGameOver(), false);
+  assert.is(fifty.outcome({ claimDraw: true })!.termination, Termination.FIFTY_MOVES);
+
+  const seventyfive = new Board("4k3/8/8/8/8/8/8/4K2R w - - 150 100");
+  assert.is(seventyfive.outcome()!.termination, Termination.SEVENTYFIVE_MOVES);
+});
+
+outcomes("hasInsufficientMaterial() should handle bishops and knights", () => {
+  // Same-coloured bishops cannot mate
+  const sameBishops = new Board("8/8/4k3/8/2b5/2K5/4B3/8 w - - 0 1");
+  assert.is(sameBishops.isInsufficientMaterial(), true);
+  assert.is(sameBishops.hasInsufficientMaterial(), true);
+
+  // Opposite-coloured bishops allow a (self)mate
+  const oppositeBishops = new Board("8/8/4k3/3b4/8/2K1B3/8/8 w - - 0 1");
+  assert.is(oppositeBishops.hasInsufficientMaterial(WHITE), false);
+  assert.is(oppositeBishops.isInsufficientMaterial(), false);
+
+  // King and rook vs. king: only white can win
+  const rook = new Board("8/8/4k3/8/8/2K5/8/R7 w - - 0 1");
+  assert.is(rook.hasInsufficientMaterial(WHITE), false);
+  assert.is(rook.hasInsufficientMaterial(BLACK), true);
+
+  // Knight vs. rook: the rook could block a selfmate
+  const knight = new Board("8/8/4k3/4r3/8/2K1N3/8/8 w - - 0 1");
+  assert.is(knight.hasInsufficientMaterial(WHITE), false);
+});
+
+outcomes.run();
+
+// =============================================================================
+// Chess960
+// =============================================================================
+
+const chess960 = suite("Chess960 castling");
+
+chess960("should read and write Shredder-FEN and X-FEN castling rights", () => {
+  const board = new Board(CHESS960_FEN, { chess960: true });
+  assert.is(board.fen(), "1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R2K1R1 w KQkq - 0 1");
+  assert.is(board.shredderFen(), CHESS960_FEN);
+  assert.is(new Board(board.fen(), { chess960: true }).shredderFen(), CHESS960_FEN);
+  assert.ok(board.hasChess960CastlingRights());
+
+  // X-FEN names the rook file when another rook stands outside it
+  const inner = new Board("4k3/8/8/8/8/8/8/RR2K3 w B - 0 1", { chess960: true });
+  assert.is(inner.fen(), "4k3/8/8/8/8/8/8/RR2K3 w B - 0 1");
+  assert.ok(inner.hasQueensideCastlingRights(WHITE));
+  assert.not.ok(inner.hasKingsideCastlingRights(WHITE));
+
+  // Standard chess only keeps rights for corner rooks and a king on e1/e8
+  assert.is(new Board(CHESS960_FEN).castlingRights, 0);
+});
+
+chess960("castling should be encoded as king takes rook", () => {
+  const board = new Board(CHESS960_FEN, { chess960: true });
+  const kingside = board.parseSan("O-O");
+  const queenside = board.parseSan("O-O-O");
+  assert.is(kingside.uci(), "e1g1");
+  assert.is(queenside.uci(), "e1b1");
+  assert.is(board.san(queenside), "O-O-O");
+  assert.is(board.uci(queenside, false), "e1b1");
+
+  board.push(kingside);
+  assert.is(board.boardFen(), "1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R3RK1");
+  assert.not.ok(board.hasCastlingRights(WHITE));
+  assert.is(board.shredderFen(), "1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R3RK1 b gb - 1 1");
+
+  board.pushSan("O-O-O");
+  assert.is(board.boardFen(), "2kr2r1/1p4p1/8/8/8/8/1P4P1/1R3RK1");
+  assert.throws(() => board.parseSan("O-O"));
+});
+
+chess960("standard boards should accept both castling encodings", () => {
+  const board = new Board("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1");
+  assert.is(board.parseUci("e1h1").uci(), "e1g1");
+  assert.is(board.uci(board.parseUci("e1g1"), true), "e1h1");
+
+  board.pushUci("e1h1");
+  assert.is(board.fen(), "r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1");
+  assert.equal(board.moveStack.map(move => move.uci()), ["e1g1"]);
+});
+
+chess960("readGame() should honor the Chess960 Variant header", () => {
+  const game = readGame(`[Variant "Chess960"]
+[SetUp "1"]
+[FEN "${CHESS960_FEN}"]
+
+1. O-O (1. O-O-O O-O) O-O-O *`)!;
+  assert.ok(game.chess960);
+  assert.is(game.errors.length, 0);
+  assert.is(game.end().board().boardFen(), "2kr2r1/1p4p1/8/8/8/8/1P4P1/1R3RK1");
+
+  const sideline = game.variations[1];
+  assert.is(sideline.move!.uci(), "e1b1");
+  assert.is(sideline.variations[0].board().boardFen(), "1r3rk1/1p4p1/8/8/8/8/1P4P1/2KR2R1");
+  assert.equal([...game.mainline()].map(node => node.san()), ["O-O", "O-O-O"]);
+  assert.equal([...game.mainline()].map(node => node.uci(false)), ["e1g1", "e8b8"]);
+});
+
+chess960("fromChess960Pos() and chess960Pos() should use Scharnagl numbers", () => {
+  assert.is(Board.fromChess960Pos(518).fen(), STARTING_FEN);
+  assert.is(Board.fromChess960Pos(0).shredderFen(), "bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1");
+  assert.is(new Board().chess960Pos(), 518);
+
+  const positions = new Set<string>();
+  for (let n = 0; n < 960; n++) {
+    const board = Board.fromChess960Pos(n);
+    assert.is(board.chess960Pos(), n);
+    positions.add(board.boardFen());
+  }
+  assert.is(positions.size, 960);
+
+  const board = Board.fromChess960Pos(959);
+  board.pushSan("e4");
+  assert.is(board.chess960Pos(), null);
+  assert.is(board.chess960Pos({ ignoreTurn: true }), null);
+  assert.throws(() => Board.fromChess960Pos(960));
+});
+
+chess960("Game.fromFen() should set the Variant, SetUp and FEN headers", () => {
+  const game = Game.fromFen(Board.fromChess960Pos(0).fen());
+  assert.is(game.headers.get("Variant"), "Chess960");
+  assert.is(game.headers.get("SetUp"), "1");
+  assert.is(game.headers.get("FEN"), "bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1");
+  assert.ok(game.board().chess960);
+
+  // Standard castling rights stay standard chess
+  const standard = Game.fromFen("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1");
+  assert.not.ok(standard.headers.has("Variant"));
+  assert.is(standard.headers.get("SetUp"), "1");
+
+  const start = Game.fromBoard(Board.fromChess960Pos(518));
+  assert.is(start.headers.get("Variant"), "Chess960");
+  assert.not.ok(start.headers.has("FEN"));
+  assert.not.ok(start.headers.has("SetUp"));
+});
+
+chess960.run();
+
+// =============================================================================
+// Position Validity
+// =============================================================================
+
+const validity = suite("Position validity");
+
+validity("status() should accept reachable positions", () => {
+  assert.is(new Board().status(), STATUS_VALID);
+  assert.ok(new Board().isValid());
+  assert.ok(new Board("rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 3").isValid());
+  assert.ok(Board.fromChess960Pos(0).isValid());
+
+  const board = new Board();
+  board.pushSan("e4");
+  assert.ok(board.isValid());
+});
+
+validity("status() should flag missing and extra pieces", () => {
+  assert.is(new Board(null).status(), STATUS_EMPTY | STATUS_NO_WHITE_KING | STATUS_NO_BLACK_KING);
+  assert.is(new Board("4k3/8/8/8/8/8/8/8 w - - 0 1").status(), STATUS_NO_WHITE_KING);
+  assert.is(new Board("4k3/8/8/8/8/8/8/4K2K w - - 0 1").status(), STATUS_TOO_MANY_KINGS);
+  assert.is(
+    new Board("4k3/8/8/8/8/P7/PPPPPPPP/4K3 w - - 0 1").status(),
+    STATUS_TOO_MANY_WHITE_PAWNS
+  );
+  assert.is(new Board("P3k3/8/8/8/8/8/8/4K3 w - - 0 1").status(), STATUS_PAWNS_ON_BACKRANK);
+});
+
+validity("status() should flag impossible castling rights and en passant squares", () => {
+  assert.is(new Board("4k3/8/8/8/8/8/8/4K2R w KQ - 0 1").status(), STATUS_BAD_CASTLING_RIGHTS);
+  assert.is(new Board("r3k2r/8/8/8/8/8/8/R2K3R w kq - 0 1").status(), STATUS_VALID);
+
+  // No black pawn on e5, and an en passant square on the wrong rank
+  assert.is(new Board("4k3/8/8/8/8/8/8/4K3 w - e6 0 1").status(), STATUS_INVALID_EP_SQUARE);
+  assert.is(new Board("4k3/8/8/4p3/8/8/8/4K3 w - e4 0 1").status(), STATUS_INVALID_EP_SQUARE);
+  assert.is(new Board("4k3/4p3/8/4p3/8/8/8/4K3 w - e6 0 1").status(), STATUS_INVALID_EP_SQUARE);
+});
+
+validity("status() should flag impossible checks", () => {
+  // White to move, but black is in check
+  assert.is(new Board("4k2R/8/8/8/8/8/8/4K3 w - - 0 1").status(), STATUS_OPPOSITE_CHECK);
+
+  // Double checks from a discovered check are possible, but not along one line
+  assert.ok(new Board("4k3/8/8/8/1b6/8/4r3/4K3 w - - 0 1").isValid());
+  assert.is(new Board("4k3/8/8/8/8/8/8/r2K3r w - - 0 1").status(), STATUS_IMPOSSIBLE_CHECK);
+  assert.is(
+    new Board("4k3/8/8/8/1b6/3n4/4r3/4K3 w - - 0 1").status(),
+    STATUS_TOO_MANY_CHECKERS | STATUS_IMPOSSIBLE_CHECK
+  );
+
+  // After a double push only the pawn, or a line it opened, can give check
+  assert.ok(new Board("4k3/8/8/3p4/4K3/8/8/8 w - d6 0 1").isValid());
+  assert.is(new Board("4k3/8/8/8/4P3/8/8/1K1r4 b - e3 0 1").status(), STATUS_OPPOSITE_CHECK);
+  assert.is(new Board("4k3/8/8/8/4P3/8/8/r3K3 w - e3 0 1").status(), STATUS_INVALID_EP_SQUARE);
+  assert.is(new Board("r3k3/8/8/4p3/8/8/8/K7 w - e6 0 1").status(), STATUS_IMPOSSIBLE_CHECK);
+});
+
+validity("Game.fromFen() and readGame() should report invalid setups", () => {
+  assert.is(Game.fromFen(STARTING_FEN).errors.length, 0);
+
+  const fromFen = Game.fromFen("4k2P/8/8/8/8/8/8/8 w - - 0 1");
+  assert.equal(fromFen.errors.map(error => error.message), [
+    "Invalid starting position: no white king",
+    "Invalid starting position: pawns on the back rank",
+  ]);
+  assert.is(fromFen.errors[0].fen, "4k2P/8/8/8/8/8/8/8 w - - 0 1");
+
+  const game = readGame(`[SetUp "1"]
+[FEN "4k2R/8/8/8/8/8/8/4K3 w - - 0 1"]
+
+1. Kd2 *`)!;
+  assert.equal(game.errors.map(error => error.message), ["Invalid starting position: side not to move is in check"]);
+  assert.is(game.variations.length, 0);
+});
+
+validity.run();
+
+// =============================================================================
+// FEN Parsing
+// =============================================================================
+
+const fenParsing = suite("FEN parsing");
+
+function fenError(fn: () => void): FenError {
+  try {
+    fn();
+  } catch (e) {
+    assert.instance(e, FenError);
+    return e as FenError;
+  }
+  throw new assert.Assertion({ message: "Expected a FenError" });
+}
+
+fenParsing("setFen() should accept complete FENs without normalizations", () => {
+  const board = new Board(null);
+  assert.equal(board.setFen(STARTING_FEN, { strict: true }), []);
+
+  const fischer = new Board(null, { chess960: true });
+  assert.equal(fischer.setFen(`  ${CHESS960_FEN} `, { strict: true }), []);
+  assert.is(fischer.fen(), "1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R2K1R1 w KQkq - 0 1");
+});
+
+fenParsing("strict mode should name the field and offset of the problem", () => {
+  const board = new Board();
+
+  let error = fenError(() => board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR x KQkq - 0 1", { strict: true }));
+  assert.is(error.field, "turn");
+  assert.is(error.offset, 44);
+  assert.match(error.message, /invalid side to move 'x'/);
+
+  error = fenError(() => board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkz - 0 1", { strict: true }));
+  assert.is(error.field, "castling");
+  assert.is(error.offset, 49);
+
+  error = fenError(() => board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - x 1", { strict: true }));
+  assert.is(error.field, "halfmoveClock");
+
+  error = fenError(() => board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -", { strict: true }));
+  assert.is(error.field, "halfmoveClock");
+  assert.is(error.offset, 52);
+
+  error = fenError(() => board.setFen("rnbqkbnr/ppppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1", { strict: true }));
+  assert.is(error.field, "board");
+  assert.is(error.offset, 9);
+
+  // The board is left untouched
+  assert.is(board.fen(), STARTING_FEN);
+});
+
+fenParsing("lenient mode should report what it normalized", () => {
+  const board = new Board(null);
+  const normalizations = board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQ-q e9 x 0");
+  assert.equal(normalizations, [
+    { field: "castling", offset: 48, message: "invalid castling character '-', ignored" },
+    { field: "epSquare", offset: 51, message: "invalid en passant square 'e9', assuming '-'" },
+    { field: "halfmoveClock", offset: 54, message: "invalid halfmove clock 'x', assuming '0'" },
+    { field: "fullmoveNumber", offset: 56, message: "invalid fullmove number '0', assuming '1'" },
+  ]);
+  assert.is(board.fen(), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQq - 0 1");
+
+  assert.equal(board.setFen("8/8/8/8/8/8/8/4K2k").map(n => n.field), [
+    "turn", "castling", "epSquare", "halfmoveClock", "fullmoveNumber",
+  ]);
+  assert.equal(board.setFen("4k3/8/44/8/8/8/8/4K3 w - - 0 1 extra").map(n => n.message), [
+    "consecutive empty square counts, added up",
+    "unexpected field 'extra', ignored",
+  ]);
+  assert.equal(board.setFen("4k3/8/8/8/8/8/8/4K w - - 0 1").map(n => n.message), [
+    "rank 1 has 5 squares, filled up with empty squares",
+  ]);
+});
+
+fenParsing("an unreadable piece placement should throw in both modes", () => {
+  const board = new Board();
+  assert.throws(() => board.setFen("8/8/8/8/8/8/8 w - - 0 1"), /expected 8 ranks, got 7/);
+  assert.throws(() => new Board("4k3/8/8/8/8/8/8/4X3 w - - 0 1"), /invalid character 'X'/);
+  assert.throws(() => new Board(""), /empty FEN/);
+  assert.is(board.fen(), STARTING_FEN);
+});
+
+fenParsing.run();
+
+// =============================================================================
+// Attacks and Pins
+// =============================================================================
+
+const attacks = suite("Attacks and pins");
+
+attacks("attackers() and attacks() should return square sets", () => {
+  const board = new Board("r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3");
+  assert.instance(board.attackers(WHITE, E5), SquareSet);
+  assert.equal([...board.attackers(WHITE, E5)], [F3]);
+  assert.equal([...board.attackers(BLACK, E5)], [C6]);
+  assert.is(board.attackers(BLACK, E4).size, 0);
+
+  assert.equal([...board.attacks(F3)], [E1, G1, D2, H2, D4, H4, E5, G5]);
+  assert.is(board.attacks(D4).size, 0);
+  assert.is(board.attacksMask(F3), board.attacks(F3).mask);
+  assert.is(board.attackersMask(WHITE, E5), board.attackers(WHITE, E5).mask);
+});
+
+attacks("pin() and isPinned() should follow the line to the king", () => {
+  const board = new Board("4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1");
+  assert.ok(board.isPinned(WHITE, E2));
+  assert.ok(board.pin(WHITE, E2).equals(SquareSet.ray(E1, E7)));
+  assert.not.ok(board.isPinned(BLACK, E7));
+  assert.is(board.pinMask(BLACK, E7), BB_ALL);
+
+  // No pin without a king
+  assert.not.ok(new Board("8/4r3/8/8/8/8/4N3/8 w - - 0 1").isPinned(WHITE, E2));
+});
+
+attacks("checkers() should return the pieces giving check", () => {
+  assert.is(new Board().checkers().size, 0);
+
+  const board = new Board("4k3/8/8/8/1b6/8/4r3/4K3 w - - 0 1");
+  assert.equal([...board.checkers()], [E2, B4]);
+  assert.is(board.checkersMask(), board.checkers().mask);
+  assert.ok(board.isCheck());
+});
+
+attacks.run();
+
+// =============================================================================
+// Move Classification
+// =============================================================================
+
+const classification = suite("Move classification");
+
+classification("en passant should count as a zeroing capture", () => {
+  const board = new Board("rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3");
+  const ep = Move.fromUci("e5f6");
+  assert.ok(board.isEnPassant(ep));
+  assert.ok(board.isCapture(ep));
+  assert.ok(board.isZeroing(ep));
+  assert.not.ok(board.isEnPassant(Move.fromUci("e5e6")));
+  assert.not.ok(board.isCapture(Move.fromUci("e5e6")));
+
+  assert.equal([...board.generateLegalEp()].map(move => move.uci()), ["e5f6"]);
+  assert.equal([...board.generateLegalCaptures()].map(move => move.uci()), ["e5f6"]);
+  assert.equal([...board.generateLegalCaptures(BB_ALL, BB_SQUARES[D5])], []);
+});
+
+classification("castling should be recognized in both encodings", () => {
+  const board = new Board("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1");
+  for (const uci of ["e1g1", "e1h1"]) {
+    assert.ok(board.isCastling(Move.fromUci(uci)), uci);
+    assert.ok(board.isKingsideCastling(Move.fromUci(uci)), uci);
+    assert.not.ok(board.isQueensideCastling(Move.fromUci(uci)), uci);
+  }
+  assert.ok(board.isQueensideCastling(Move.fromUci("e1c1")));
+  assert.not.ok(board.isCastling(Move.fromUci("e1f1")));
+
+  // Castling gives up castling rights, but does not reset the halfmove clock
+  assert.ok(board.isIrreversible(Move.fromUci("e1g1")));
+  assert.not.ok(board.isZeroing(Move.fromUci("e1g1")));
+  assert.not.ok(new Board().isIrreversible(Move.fromUci("g1f3")));
+});
+
+classification("givesCheck() should see checks by castling rooks", () => {
+  const board = new Board("3k4/8/8/8/8/8/8/R3K3 w Q - 0 1");
+  assert.ok(board.givesCheck(board.parseSan("O-O-O")));
+  assert.ok(board.givesCheck(board.parseSan("Ra8")));
+  assert.not.ok(board.givesCheck(board.parseSan("Kf2")));
+  assert.is(board.fen(), "3k4/8/8/8/8/8/8/R3K3 w Q - 0 1");
+});
+
+classification("generateLegalMoves() should filter by origin and target squares", () => {
+  const board = new Board();
+  assert.equal([...board.generateLegalMoves(BB_SQUARES[G1])].map(move => move.uci()).sort(), ["g1f3", "g1h3"]);
+  assert.is([...board.generateLegalMoves(BB_ALL, BB_RANK_4)].length, 8);
+  assert.is([...board.generateLegalMoves()].length, 20);
+});
+
+classification.run();
+
+// =============================================================================
+// Null Moves
+// =============================================================================
+
+const nullMoves = suite("Null moves");
+
+nullMoves("should pass the turn and clear the en passant square", () => {
+  const board = new Board();
+  board.push(board.parseSan("e4"));
+  const hash = zobristHash(board);
+
+  board.push(Move.null());
+  assert.is(board.fen(), "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 1 2");
+  assert.is(zobristHash(board), zobristHash(new Board(board.fen())));
+
+  assert.ok(board.pop()!.isNull());
+  assert.is(board.fen(), "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1");
+  assert.is(zobristHash(board), hash);
+});
+
+nullMoves("should not move a piece standing on a1", () => {
+  const board = new Board();
+  board.push(Move.null());
+  assert.is(board.boardFen(), new Board().boardFen());
+  assert.is(board.turn, BLACK);
+});
+
+nullMoves("should render as -- in SAN and 0000 in UCI", () => {
+  const board = new Board();
+  assert.is(board.san(Move.null()), "--");
+  assert.is(board.uci(Move.null()), "0000");
+  assert.ok(board.parseSan("--").isNull());
+  assert.ok(board.parseSan("Z0").isNull());
+});
+
+nullMoves.run();
+
+// =============================================================================
+// Static Exchange Evaluation
+// =============================================================================
+
+const exchanges = suite("Static exchange evaluation");
+
+exchanges("should win an undefended piece and lose to a cheaper defender", () => {
+  const hanging = new Board("1k1r4/1pp4p/p7/4p3/8/P5P1/1PP4P/2K1R3 w - - 0 1");
+  assert.is(hanging.see(hanging.parseSan("Rxe5")), 100);
+
+  const defended = new Board("1k1r3q/1ppn3p/p4b2/4p3/8/P2N2P1/1PP1R1BP/2K1Q3 w - - 0 1");
+  assert.is(defended.see(defended.parseSan("Nxe5")), -200);
+  assert.not.ok(defended.seeGe(defended.parseSan("Nxe5")));
+  assert.ok(defended.seeGe(defended.parseSan("Nxe5"), -200));
+});
+
+exchanges("should count x-ray attackers behind the first capturer", () => {
+  const board = new Board("3rk3/3r4/8/3p4/8/8/3R4/3RK3 w - - 0 1");
+  assert.is(board.see(board.parseSan("Rxd5")), -400);
+
+  const battery = new Board("4k3/3r4/8/3p4/8/8/3R4/3QK3 w - - 0 1");
+  assert.is(battery.see(battery.parseSan("Rxd5")), 100);
+});
+
+exchanges("should handle en passant, promotions, kings and quiet moves", () => {
+  const ep = new Board("rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3");
+  assert.is(ep.see(ep.parseSan("exf6")), 0);
+
+  const promotion = new Board("4k3/1P6/8/8/8/8/8/4K3 w - - 0 1");
+  assert.is(promotion.see(promotion.parseSan("b8=Q")), 800);
+
+  const king = new Board("4k3/8/8/3p4/4K3/8/8/8 w - - 0 1");
+  assert.is(king.see(king.parseSan("Kxd5")), 100);
+
+  const quiet = new Board();
+  assert.is(quiet.see(quiet.parseSan("e4")), 0);
+  assert.is(quiet.see(quiet.parseSan("Nf3")), 0);
+});
+
+exchanges.run();
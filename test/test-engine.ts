@@ -0,0 +1,389 @@
+/**
+ * Tests for the engine clients, against scripted stand-in engines
+ */
+
+import { suite } from "uvu";
+import assert from "uvu/assert";
+import { join } from "path";
+import {
+  Board, EngineError, EngineInfo, UciEngine, XBoardEngine, readGame, parseUciInfo, parseXBoardPost, annotateGame,
+  NAG_BLUNDER, NAG_DUBIOUS_MOVE, NAG_MISTAKE,
+} from "../src/node";
+
+const FAKE_UCI_ENGINE = join(__dirname, "fixtures", "fake-uci-engine.js");
+const FAKE_XBOARD_ENGINE = join(__dirname, "fixtures", "fake-xboard-engine.js");
+
+function spawnUci(scores?: Record<string, number | null>): Promise<UciEngine> {
+  return UciEngine.spawn(process.execPath, scores ? [FAKE_UCI_ENGINE, JSON.stringify(scores)] : [FAKE_UCI_ENGINE]);
+}
+
+function spawnXBoard(...args: string[]): Promise<XBoardEngine> {
+  return XBoardEngine.spawn(process.execPath, [FAKE_XBOARD_ENGINE, ...args]);
+}
+
+async function assertRejects(promise: Promise<unknown>, pattern: RegExp): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.match((error as Error).message, pattern);
+    return;
+  }
+  assert.unreachable("should have been rejected");
+}
+
+// =============================================================================
+// UCI Info Parsing
+// =============================================================================
+
+const uciInfo = suite("UCI info parsing");
+
+uciInfo("should parse numbers, scores with bounds and the pv", () => {
+  const board = new Board();
+  const info = parseUciInfo("depth 12 seldepth 18 multipv 2 score cp -35 upperbound nodes 123456 nps 654321 " +
+                            "hashfull 45 tbhits 0 time 188 pv e2e4 e7e5 g1f3", board);
+  assert.is(info.depth, 12);
+  assert.is(info.seldepth, 18);
+  assert.is(info.multipv, 2);
+  assert.equal(info.score, { cp: -35, mate: null, bound: "upper" });
+  assert.is(info.nodes, 123456);
+  assert.is(info.nps, 654321);
+  assert.is(info.time, 188);
+  assert.equal(info.pv!.map(move => move.uci()), ["e2e4", "e7e5", "g1f3"]);
+});
+
+uciInfo("should parse mate scores and stop the pv at an illegal move", () => {
+  const info = parseUciInfo("depth 3 score mate -2 pv e2e4 e2e4 g1f3 string rest of the line", new Board());
+  assert.equal(info.score, { cp: null, mate: -2, bound: null });
+  assert.equal(info.pv!.map(move => move.uci()), ["e2e4"]);
+  assert.is(info.string, "rest of the line");
+});
+
+uciInfo.run();
+
+// =============================================================================
+// UCI Engine
+// =============================================================================
+
+const uci = suite("UciEngine");
+
+uci("should complete the handshake and read id and options", async () => {
+  const engine = await spawnUci();
+  try {
+    assert.is(engine.id.name, "Fake Engine");
+    assert.is(engine.options.get("hash")!.max, 1024);
+    assert.equal(engine.options.get("style")!.vars, ["Solid", "Normal", "Risky"]);
+    assert.is(engine.options.get("clear hash")!.type, "button");
+
+    await engine.configure({ Hash: 32, "Clear Hash": null });
+    await assertRejects(engine.configure({ Contempt: 10 }), /does not support option Contempt/);
+    await engine.newGame();
+  } finally {
+    await engine.quit();
+  }
+});
+
+uci("should send positions with their moves and return the best move", async () => {
+  const engine = await spawnUci();
+  try {
+    const strings: string[] = [];
+    const board = new Board();
+    board.push(board.parseSan("e4"));
+
+    const result = await engine.go(board, { time: 100 }, { onInfo: info => info.string && strings.push(info.string) });
+    assert.is(strings[0], "position startpos moves e2e4");
+    assert.is(result.move!.uci(), "e7e5");
+    assert.is(result.ponder!.uci(), "g1f3");
+    assert.is(result.info.depth, 4);
+    assert.equal(result.info.score, { cp: 40, mate: null, bound: "lower" });
+    assert.equal(result.info.pv!.map(move => move.uci()), ["e7e5", "g1f3", "b8c6"]);
+
+    // A game node sends the moves leading to it
+    const game = readGame("1. e4 e5 2. Nf3 *")!;
+    strings.length = 0;
+    const played = await engine.go(game.end(), { depth: 3 }, { onInfo: info => info.string && strings.push(info.string) });
+    assert.is(strings[0], "position startpos moves e2e4 e7e5 g1f3");
+    assert.is(played.move!.uci(), "b8c6");
+  } finally {
+    await engine.quit();
+  }
+});
+
+uci("should analyse several lines and stream info", async () => {
+  const engine = await spawnUci();
+  try {
+    const seen: EngineInfo[] = [];
+    const lines = await engine.analyse(new Board(), { depth: 3 }, { multipv: 3 });
+    assert.is(lines.length, 3);
+    assert.equal(lines.map(line => line.pv![0].uci()), ["e2e4", "d2d4", "c2c4"]);
+    assert.equal(lines.map(line => line.multipv), [1, 2, 3]);
+
+    // MultiPV is back to a single line for searches that do not ask for more
+    await engine.go(new Board(), { nodes: 3000 }, { onInfo: info => seen.push(info) });
+    assert.ok(seen.some(info => info.currmove?.uci() === "e2e4"));
+    assert.ok(seen.some(info => info.string === 'options {"MultiPV":"1","UCI_Chess960":"false"}'));
+    assert.is((await engine.analyse(new Board(), { depth: 3 })).length, 1);
+  } finally {
+    await engine.quit();
+  }
+});
+
+uci("should report positions without a best move", async () => {
+  const engine = await spawnUci();
+  try {
+    const mated = new Board("R5k1/5ppp/8/8/8/8/8/6K1 b - - 0 1");
+    const result = await engine.play(mated, { time: 10 });
+    assert.is(result.move, null);
+    assert.equal(result.info.score, { cp: null, mate: 0, bound: null });
+  } finally {
+    await engine.quit();
+  }
+});
+
+uci("should stop infinite searches", async () => {
+  const engine = await spawnUci();
+  try {
+    const search = engine.go(new Board(), {}, { infinite: true });
+    await assertRejects(engine.go(new Board(), {}), /already searching/);
+    engine.stop();
+    assert.is((await search).move!.uci(), "e2e4");
+  } finally {
+    await engine.quit();
+  }
+});
+
+uci("should fail when the engine cannot be started or exits", async () => {
+  const failure = await UciEngine.spawn("/nonexistent/engine").then(() => null, (error: unknown) => error);
+  assert.instance(failure, EngineError);
+
+  const engine = await spawnUci();
+  await engine.quit();
+  await assertRejects(engine.ping(), /exited/);
+});
+
+uci.run();
+
+// =============================================================================
+// XBoard Thinking Output
+// =============================================================================
+
+const xboardPost = suite("XBoard thinking output parsing");
+
+xboardPost("should parse depth, score, time and a SAN pv with move numbers", () => {
+  const board = new Board();
+  board.push(board.parseSan("e4"));
+  const info = parseXBoardPost("12 -35 188 123456 1... e5 2. Nf3 Nc6 Qxh7", board)!;
+  assert.is(info.depth, 12);
+  assert.equal(info.score, { cp: -35, mate: null, bound: null });
+  assert.is(info.time, 1880);
+  assert.is(info.nodes, 123456);
+  assert.equal(info.pv!.map(move => move.uci()), ["e7e5", "g1f3", "b8c6"]);
+});
+
+xboardPost("should parse mate scores, extra fields and coordinate moves", () => {
+  const info = parseXBoardPost("5 100003 10 500 7 12000 0\te2e4 e7e5", new Board())!;
+  assert.equal(info.score, { cp: null, mate: 3, bound: null });
+  assert.is(info.seldepth, 7);
+  assert.is(info.nps, 12000);
+  assert.equal(info.pv!.map(move => move.uci()), ["e2e4", "e7e5"]);
+
+  assert.equal(parseXBoardPost("3 -100002 1 1", new Board())!.score, { cp: null, mate: -2, bound: null });
+  assert.is(parseXBoardPost("move e2e4", new Board()), null);
+});
+
+xboardPost.run();
+
+// =============================================================================
+// XBoard Engine
+// =============================================================================
+
+const xboard = suite("XBoardEngine");
+
+xboard("should negotiate features and options", async () => {
+  const engine = await spawnXBoard();
+  try {
+    assert.is(engine.id.name, "Fake XBoard Engine");
+    assert.is(engine.features.setboard, 1);
+    assert.is(engine.features.variants, "normal,crazyhouse");
+    assert.is(engine.options.get("hash")!.max, 1024);
+    assert.is(engine.options.get("style")!.default, "Normal");
+    assert.equal(engine.options.get("style")!.vars, ["Solid", "Normal", "Risky"]);
+
+    await engine.configure({ Hash: 32 });
+    await assertRejects(engine.configure({ Contempt: 10 }), /does not support option Contempt/);
+    await engine.ping();
+  } finally {
+    await engine.quit();
+  }
+});
+
+xboard("should fall back to protocol version 1 without feature done=1", async () => {
+  const engine = await spawnXBoard("protover1");
+  try {
+    assert.equal(engine.features, {});
+    assert.is(engine.id.name, undefined);
+    await engine.ping();
+
+    const board = new Board();
+    board.push(board.parseSan("e4"));
+    assert.is((await engine.play(board, { depth: 2 })).move!.uci(), "e7e5");
+  } finally {
+    await engine.quit();
+  }
+});
+
+xboard("should replay game nodes and return the move with thinking output", async () => {
+  const engine = await spawnXBoard();
+  try {
+    const seen: EngineInfo[] = [];
+    const game = readGame("1. e4 e5 2. Nf3 *")!;
+    const result = await engine.go(game.end(), { depth: 2 }, { onInfo: info => seen.push(info) });
+    assert.is(result.move!.uci(), "b8c6");
+    assert.is(result.ponder!.uci(), "f1b5");
+    assert.is(result.info.depth, 2);
+    assert.equal(result.info.score, { cp: 22, mate: null, bound: null });
+    assert.equal(seen.map(info => info.depth), [1, 2]);
+
+    const offered = await engine.play(game.next()!.next()!, { time: 100 });
+    assert.is(offered.move!.uci(), "g1f3");
+    assert.ok(offered.drawOffered);
+
+    const lines = await engine.analyse(new Board(), { depth: 3 });
+    assert.is(lines.length, 1);
+    assert.equal(lines[0].pv!.map(move => move.uci()), ["e2e4", "e7e5", "g1f3"]);
+  } finally {
+    await engine.quit();
+  }
+});
+
+xboard("should handle results, resignations and stop", async () => {
+  const engine = await spawnXBoard();
+  try {
+    const mated = new Board("R5k1/5ppp/8/8/8/8/8/6K1 b - - 0 1");
+    const over = await engine.play(mated, { depth: 3 });
+    assert.is(over.move, null);
+    await engine.sendGameResult(mated);
+
+    const board = new Board();
+    board.push(board.parseSan("d4"));
+    const resigned = await engine.play(board, { depth: 3 });
+    assert.is(resigned.move, null);
+    assert.ok(resigned.resigned);
+
+    const search = engine.go(new Board(), {});
+    await assertRejects(engine.go(new Board(), {}), /already searching/);
+    engine.stop();
+    assert.is((await search).move!.uci(), "e2e4");
+
+    await assertRejects(engine.play(new Board(), { mate: 2 }), /mate limits/);
+    await assertRejects(engine.play(new Board(undefined, { chess960: true }), { depth: 1 }), /variant fischerandom/);
+  } finally {
+    await engine.quit();
+  }
+});
+
+xboard.run();
+
+// =============================================================================
+// Game Annotation
+// =============================================================================
+
+const annotation = suite("annotateGame()");
+
+// Scores for the side to move, by the moves of the position
+const SCORES = {
+  "": 30,
+  "e2e4": -30,
+  "e2e4 e7e5": 90,
+  "e2e4 e7e5 g1f3": -90,
+  "e2e4 e7e5 g1f3 b8c6": 90,
+  "e2e4 e7e5 g1f3 b8c6 f1c4": 60,
+  "e2e4 e7e5 g1f3 b8c6 f1c4 g8f6": 400,
+};
+
+annotation("should add evals, NAGs by centipawn loss and the best line for mistakes", async () => {
+  const engine = await spawnUci(SCORES);
+  try {
+    const game = readGame("1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 *")!;
+    await annotateGame(game, engine, { depth: 3 });
+
+    const nodes = [...game.mainline()];
+    assert.equal(nodes.map(node => node.eval), [0.3, 0.9, 0.9, 0.9, -0.6, 4]);
+    assert.equal(nodes.map(node => [...node.nags]), [[], [NAG_DUBIOUS_MOVE], [], [], [NAG_MISTAKE], [NAG_BLUNDER]]);
+
+    // The blunder was played off the engine's line, so it has no best line to show
+    assert.equal(nodes[3].variations.map(node => node.uci()), ["f1c4", "f1b5"]);
+    assert.equal(nodes[4].variations.length, 1);
+
+    const pgn = game.toPgn({ columns: 0 });
+    assert.ok(pgn.includes("1. e4 {[%eval 0.30]} e5 $6 {[%eval 0.90]} 2. Nf3 {[%eval 0.90]} Nc6 {[%eval 0.90]} " +
+                           "3. Bc4 $2 {[%eval -0.60]} ( 3. Bb5 a6 ) 3... Nf6 $4 {[%eval 4.00]}"));
+    assert.equal([...readGame(pgn)!.mainline()].map(node => node.eval), [0.3, 0.9, 0.9, 0.9, -0.6, 4]);
+  } finally {
+    await engine.quit();
+  }
+});
+
+annotation("should use custom thresholds and leave the eval of a mating move", async () => {
+  const engine = await spawnUci(SCORES);
+  try {
+    const game = readGame("1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 *")!;
+    await annotateGame(game, engine, { nodes: 1000, inaccuracy: 100, mistake: 500, blunder: 1000 });
+    assert.equal([...game.mainline()].map(node => [...node.nags]), [[], [], [], [], [NAG_DUBIOUS_MOVE], [NAG_DUBIOUS_MOVE]]);
+    assert.is(game.next()!.next()!.next()!.variations.length, 1);
+
+    const mate = readGame('[FEN "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1"]\n\n1. Ra8# {[%eval 9.50]} *')!;
+    await annotateGame(mate, engine, { movetime: 10 });
+    assert.is(mate.next()!.eval, 9.5);
+    assert.is(mate.next()!.evalMate, null);
+    assert.equal([...mate.next()!.nags], []);
+  } finally {
+    await engine.quit();
+  }
+});
+
+annotation("should export mate scores as moves to mate", async () => {
+  const engine = await spawnUci({ ...SCORES, "e2e4 e7e5 g1f3 b8c6 f1c4": "mate 3", "e2e4 e7e5 g1f3 b8c6 f1c4 g8f6": "mate -1" });
+  try {
+    const game = readGame("1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 {[%eval 4.00]} *")!;
+    await annotateGame(game, engine, { depth: 3 });
+
+    const nodes = [...game.mainline()];
+    assert.equal(nodes.map(node => node.evalMate), [null, null, null, null, -3, -1]);
+    assert.is(nodes[5].eval, 4);
+
+    const pgn = game.toPgn({ columns: 0 });
+    assert.ok(pgn.includes("3. Bc4 $4 {[%eval #-3]} ( 3. Bb5 a6 ) 3... Nf6 {[%eval #-1]}"));
+    assert.equal([...readGame(pgn)!.mainline()].map(node => node.evalMate), [null, null, null, null, -3, -1]);
+  } finally {
+    await engine.quit();
+  }
+});
+
+annotation("should leave moves without an engine score unannotated", async () => {
+  const engine = await spawnUci({ ...SCORES, "e2e4 e7e5 g1f3 b8c6 f1c4": null });
+  try {
+    const game = readGame("1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 *")!;
+    await annotateGame(game, engine, { depth: 3 });
+
+    // Bc4 and Nf6 are judged against the position without a score
+    const nodes = [...game.mainline()];
+    assert.equal(nodes.map(node => node.eval), [0.3, 0.9, 0.9, 0.9, null, 4]);
+    assert.equal(nodes.map(node => [...node.nags]), [[], [NAG_DUBIOUS_MOVE], [], [], [], []]);
+    assert.is(nodes[3].variations.length, 1);
+  } finally {
+    await engine.quit();
+  }
+});
+
+annotation("should annotate with an XBoard engine", async () => {
+  const engine = await spawnXBoard();
+  try {
+    const game = readGame("1. e4 e5 2. Nf3 *")!;
+    await annotateGame(game, engine, { depth: 2 });
+    assert.equal([...game.mainline()].map(node => node.eval), [-0.22, 0.22, -0.22]);
+  } finally {
+    await engine.quit();
+  }
+});
+
+annotation.run();
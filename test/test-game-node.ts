@@ -494,5 +494,49 @@ complexPgn("should handle games with FEN", () => {
   assert.is(board.fullmoveNumber, 3);
 });
 
+complexPgn("should round-trip null moves", () => {
+  const game = readGame("1. e4 Z0 2. d4 -- 3. Nf3 (3. c4 --) *");
+  assert.ok(game);
+  assert.equal(game!.errors, []);
+
+  const pgn = game!.toPgn();
+  assert.ok(pgn.includes("1. e4 -- 2. d4 -- 3. Nf3 ( 3. c4 -- )"));
+  assert.is(readGame(pgn)!.toPgn(), pgn);
+  assert.is(game!.end().board().fen(), "rnbqkbnr/pppppppp/8/8/3PP3/5N2/PPP2PPP/RNBQKB1R b KQkq - 2 3");
+});
+
+complexPgn("should export variations right after the move they replace", () => {
+  const game = readGame("1. e4 e5 2. Nf3 (2. Bc4 Nf6) 2... Nc6 3. Bb5 {Spanish} a6 *")!;
+  const pgn = game.toPgn();
+  assert.ok(pgn.includes("1. e4 e5 2. Nf3 ( 2. Bc4 Nf6 ) 2... Nc6 3. Bb5 {Spanish} a6"));
+  assert.is(readGame(pgn)!.toPgn(), pgn);
+});
+
+complexPgn("should export nested variations with their move numbers", () => {
+  const game = readGame("1. e4 e5 (1... c5 2. Nf3 (2. c3 d5 (2... Nf6)) 2... d6) 2. Nf3 *")!;
+  const pgn = game.toPgn({ columns: 0 });
+  assert.ok(pgn.includes("1. e4 e5 ( 1... c5 2. Nf3 ( 2. c3 d5 ( 2... Nf6 ) ) 2... d6 ) 2. Nf3"));
+  assert.is(readGame(pgn)!.toPgn({ columns: 0 }), pgn);
+});
+
+complexPgn("should export comments before a move", () => {
+  const game = readGame("{Intro} 1. e4 e5 ({Or} 1... c5 {Sicilian} 2. Nf3) 2. Nf3 *")!;
+  const pgn = game.toPgn();
+  assert.ok(pgn.includes("{Intro} 1. e4 e5 ( {Or} 1... c5 {Sicilian} 2. Nf3 ) 2. Nf3"));
+  assert.is(readGame(pgn)!.toPgn(), pgn);
+});
+
+complexPgn("should export a game starting with black to move", () => {
+  const game = readGame(`
+    [FEN "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 2 3"]
+    [SetUp "1"]
+
+    3... Nf6 (3... Bc5 4. c3 (4. Bc4 d6) 4... Nf6) 4. Nc3 *
+  `)!;
+  const pgn = game.toPgn();
+  assert.ok(pgn.includes("3... Nf6 ( 3... Bc5 4. c3 ( 4. Bc4 d6 ) 4... Nf6 ) 4. Nc3"));
+  assert.is(readGame(pgn)!.toPgn(), pgn);
+});
+
 complexPgn.run();
 
@@ -0,0 +1,61 @@
+/**
+ * Tests for the mate-in-N solver
+ */
+
+import { suite } from "uvu";
+import assert from "uvu/assert";
+import { Board, solveMate } from "../src";
+
+function uciLines(lines: { uci(): string }[][]): string[] {
+  return lines.map(line => line.map(move => move.uci()).join(" "));
+}
+
+// =============================================================================
+// Solutions
+// =============================================================================
+
+const solutions = suite("solveMate()");
+
+solutions("should find a unique mate in one", () => {
+  const fen = "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1";
+  const board = new Board(fen);
+  const solution = solveMate(board, 1);
+  assert.is(solution.mateIn, 1);
+  assert.equal(solution.keyMoves.map(move => move.uci()), ["a1a8"]);
+  assert.equal(uciLines(solution.lines), ["a1a8"]);
+  assert.equal(solution.cooks, []);
+  assert.is(board.fen(), fen);
+});
+
+solutions("should report every defence of a mate in three", () => {
+  const board = new Board("r5rk/5p1p/5R2/4B3/8/8/7P/7K w - - 0 1");
+  const solution = solveMate(board, 3);
+  assert.is(solution.mateIn, 3);
+  assert.equal(solution.keyMoves.map(move => move.uci()), ["f6a6"]);
+  assert.equal(uciLines(solution.lines).sort(), [
+    "f6a6 f7f6 e5f6 g8g7 a6a8",
+    "f6a6 g8g7 a6a8",
+  ]);
+});
+
+solutions("should report alternative key moves as cooks", () => {
+  const twoRooks = solveMate(new Board("6k1/5ppp/8/8/8/8/8/RR4K1 w - - 0 1"), 1);
+  assert.is(twoRooks.keyMoves.length, 2);
+  assert.equal(twoRooks.cooks, twoRooks.keyMoves.slice(1));
+
+  // Kb6 and Kc6 mate in two, nothing else mates within three
+  const board = new Board("k7/8/8/2K5/8/8/8/7R w - - 0 1");
+  assert.is(solveMate(board, 1).mateIn, null);
+  const solution = solveMate(board, 3);
+  assert.is(solution.mateIn, 2);
+  assert.equal(solution.keyMoves.map(move => move.uci()).sort(), ["c5b6", "c5c6"]);
+  assert.is(solution.cooks.length, 1);
+});
+
+solutions("should prove there is no mate", () => {
+  const board = new Board();
+  assert.equal(solveMate(board, 2), { mateIn: null, keyMoves: [], lines: [], cooks: [] });
+  assert.equal(solveMate(board, 0).keyMoves, []);
+});
+
+solutions.run();
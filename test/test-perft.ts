@@ -0,0 +1,99 @@
+/**
+ * Perft tests for legal move generation
+ *
+ * Node counts from chessprogramming.org/Perft_Results and the perftsuite
+ * of edge cases by Martin Sedlak.
+ */
+
+import { suite } from "uvu";
+import assert from "uvu/assert";
+import { Board, perft, divide } from "../src";
+
+const KIWIPETE = "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1";
+
+function assertPerft(fen: string, counts: number[]): void {
+  const board = new Board(fen);
+  counts.forEach((count, i) => {
+    assert.is(perft(board, i + 1), count, `${fen} at depth ${i + 1}`);
+  });
+  assert.is(board.fen(), fen);
+}
+
+// =============================================================================
+// Standard Positions
+// =============================================================================
+
+const positions = suite("Perft positions");
+
+positions("starting position", () => {
+  assertPerft("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1", [20, 400, 8902, 197281]);
+});
+
+positions("Kiwipete", () => {
+  assertPerft(KIWIPETE, [48, 2039, 97862]);
+});
+
+positions("position 3", () => {
+  assertPerft("8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1", [14, 191, 2812, 43238]);
+});
+
+positions("position 4 and its mirror", () => {
+  assertPerft("r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1", [6, 264, 9467]);
+  assertPerft("r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1", [6, 264, 9467]);
+});
+
+positions("position 5", () => {
+  assertPerft("rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8", [44, 1486, 62379]);
+});
+
+positions("position 6", () => {
+  assertPerft("r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10", [46, 2079, 89890]);
+});
+
+positions.run();
+
+// =============================================================================
+// Edge Cases
+// =============================================================================
+
+const edgeCases = suite("Perft edge cases");
+
+edgeCases("en passant captures that expose the king", () => {
+  assertPerft("3k4/3p4/8/K1P4r/8/8/8/8 b - - 0 1", [18, 92, 1670, 10138]);
+  assertPerft("8/8/1k6/2b5/2pP4/8/5K2/8 b - d3 0 1", [15, 126, 1928, 13931]);
+});
+
+edgeCases("castling that gives check", () => {
+  assertPerft("5k2/8/8/8/8/8/8/4K2R w K - 0 1", [15, 66, 1198, 6399]);
+  assertPerft("3k4/8/8/8/8/8/8/R3K3 w Q - 0 1", [16, 71, 1286, 7418]);
+});
+
+edgeCases("castling rights and castling through check", () => {
+  assertPerft("r3k2r/1b4bq/8/8/8/8/7B/R3K2R w KQkq - 0 1", [26, 1141, 27826]);
+  assertPerft("r3k2r/8/3Q4/8/8/5q2/8/R3K2R b KQkq - 0 1", [44, 1494, 50509]);
+});
+
+edgeCases("promotions", () => {
+  assertPerft("2K2r2/4P3/8/8/8/8/8/3k4 w - - 0 1", [11, 133, 1442, 19174]);
+  assertPerft("4k3/1P6/8/8/8/8/K7/8 w - - 0 1", [9, 40, 472, 2661]);
+  assertPerft("8/P1k5/K7/8/8/8/8/8 w - - 0 1", [6, 27, 273, 1329, 18135]);
+});
+
+edgeCases("discovered checks, stalemates and checkmates", () => {
+  assertPerft("8/8/1P2K3/8/2n5/1q6/8/5k2 b - - 0 1", [29, 165, 5160, 31961]);
+  assertPerft("K1k5/8/P7/8/8/8/8/8 w - - 0 1", [2, 6, 13, 63, 382, 2217]);
+  assertPerft("8/k1P5/8/1K6/8/8/8/8 w - - 0 1", [10, 25, 268, 926, 10857]);
+  assertPerft("8/8/2k5/5q2/5n2/8/5K2/8 b - - 0 1", [37, 183, 6559, 23527]);
+});
+
+edgeCases("divide() should split the count by root move", () => {
+  const board = new Board(KIWIPETE);
+  const counts = divide(board, 2);
+  assert.is(counts.size, 48);
+  assert.is(counts.get("e1g1"), 43);
+  assert.is(counts.get("e5f7"), 44);
+  assert.is([...counts.values()].reduce((a, b) => a + b, 0), 2039);
+  assert.is(divide(board, 0).size, 0);
+});
+
+edgeCases.run();
@@ -0,0 +1,187 @@
+/**
+ * Tests for reading and building Polyglot opening books
+ */
+
+import { suite } from "uvu";
+import assert from "uvu/assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Board, Move, openReader, buildPolyglotBook, readGames, parseSquare, QUEEN, BLACK } from "../src";
+import { openReader as openBookFile } from "../src/node";
+
+const CASTLING_FEN = "r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1";
+
+/** Pack [key, uci, weight] entries into a book, sorted by key like real books */
+function buildFixture(entries: [bigint, string, number][]): Uint8Array {
+  const sorted = [...entries].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const data = new Uint8Array(sorted.length * 16);
+  const view = new DataView(data.buffer);
+  sorted.forEach(([key, uci, weight], i) => {
+    const fromSquare = parseSquare(uci.slice(0, 2))!;
+    const toSquare = parseSquare(uci.slice(2, 4))!;
+    const promotion = uci.length > 4 ? "nbrq".indexOf(uci[4]) + 1 : 0;
+    view.setBigUint64(i * 16, key);
+    view.setUint16(i * 16 + 8, toSquare | (fromSquare << 6) | (promotion << 12));
+    view.setUint16(i * 16 + 10, weight);
+    view.setUint32(i * 16 + 12, i);
+  });
+  return data;
+}
+
+const START_KEY = 0x463b96181691fc9cn;
+
+const BOOK = buildFixture([
+  [START_KEY, "e2e4", 100],
+  [START_KEY, "d2d4", 50],
+  [START_KEY, "g1f3", 0],
+  [START_KEY, "e2e5", 10],
+  [new Board(CASTLING_FEN).zobristHash(), "e1h1", 1],
+  [new Board("4k3/1P6/8/8/8/8/8/4K3 w - - 0 1").zobristHash(), "b7b8q", 1],
+  [0x0123456789abcdefn, "a2a3", 1],
+]);
+
+// =============================================================================
+// Lookups
+// =============================================================================
+
+const lookups = suite("Polyglot lookups");
+
+lookups("should find the legal entries of a position", () => {
+  const reader = openReader(BOOK);
+  assert.is(reader.length, 7);
+
+  const board = new Board();
+  const entries = [...reader.findAll(board)];
+  assert.equal(entries.map(entry => entry.move.uci()), ["e2e4", "d2d4"]);
+  assert.is(entries[0].key, START_KEY);
+  assert.is(entries[0].weight, 100);
+
+  assert.equal([...reader.findAll(board, { minimumWeight: 0 })].map(entry => entry.move.uci()), ["e2e4", "d2d4", "g1f3"]);
+  assert.equal([...reader.findAll(board, { excludeMoves: [Move.fromUci("e2e4")] })].map(entry => entry.move.uci()), ["d2d4"]);
+});
+
+lookups("should return the entry with the highest weight", () => {
+  const reader = openReader(BOOK);
+  assert.is(reader.find(new Board()).move.uci(), "e2e4");
+  assert.is(reader.find(new Board(), { excludeMoves: [Move.fromUci("e2e4")] }).move.uci(), "d2d4");
+
+  const empty = new Board("4k3/8/8/8/8/8/8/4K3 w - - 0 1");
+  assert.is(reader.get(empty), null);
+  assert.throws(() => reader.find(empty), /No book entry/);
+});
+
+lookups("should decode castling and promotions for the board", () => {
+  const reader = openReader(BOOK);
+
+  // Stored as king takes rook, converted to the board's castling encoding
+  const entry = reader.find(new Board(CASTLING_FEN));
+  assert.is(entry.move.uci(), "e1g1");
+  assert.is(entry.rawMove, parseSquare("h1")! | (parseSquare("e1")! << 6));
+
+  const chess960 = new Board(CASTLING_FEN, { chess960: true });
+  assert.is(reader.find(chess960).move.uci(), "e1h1");
+
+  const promotion = reader.find(new Board("4k3/1P6/8/8/8/8/8/4K3 w - - 0 1"));
+  assert.is(promotion.move.promotion, QUEEN);
+});
+
+lookups("should read books from a file path with the Node entry point", () => {
+  const dir = mkdtempSync(join(tmpdir(), "polyglot-"));
+  try {
+    const path = join(dir, "book.bin");
+    writeFileSync(path, BOOK);
+    assert.is(openBookFile(path).find(new Board()).move.uci(), "e2e4");
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+});
+
+lookups.run();
+
+// =============================================================================
+// Random Choices
+// =============================================================================
+
+const choices = suite("Polyglot random choices");
+
+choices("should choose proportionally to the weights", () => {
+  const reader = openReader(BOOK);
+  const board = new Board();
+  assert.is(reader.weightedChoice(board, { random: () => 0 }).move.uci(), "e2e4");
+  assert.is(reader.weightedChoice(board, { random: () => 0.66 }).move.uci(), "e2e4");
+  assert.is(reader.weightedChoice(board, { random: () => 0.67 }).move.uci(), "d2d4");
+  assert.is(reader.weightedChoice(board, { random: () => 0.999 }).move.uci(), "d2d4");
+});
+
+choices("should choose uniformly among the entries", () => {
+  const reader = openReader(BOOK);
+  const board = new Board();
+  assert.is(reader.choice(board, { random: () => 0 }).move.uci(), "e2e4");
+  assert.is(reader.choice(board, { random: () => 0.5 }).move.uci(), "d2d4");
+  assert.throws(() => reader.choice(new Board("4k3/8/8/8/8/8/8/4K3 w - - 0 1")), /No book entry/);
+});
+
+choices.run();
+
+// =============================================================================
+// Building Books
+// =============================================================================
+
+const building = suite("Polyglot book building");
+
+const COLLECTION = `
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 Nc6 1-0
+
+[Result "0-1"]
+
+1. e4 c5 0-1
+
+[Result "1/2-1/2"]
+
+1. d4 d5 1/2-1/2
+`;
+
+function bookMoves(book: Uint8Array, board: Board): [string, number][] {
+  return [...openReader(book).findAll(board, { minimumWeight: 0 })].map(entry => [entry.move.uci(), entry.weight]);
+}
+
+building("should weight moves by the results for the side that played them", () => {
+  const book = buildPolyglotBook(readGames(COLLECTION));
+  const board = new Board();
+  assert.equal(bookMoves(book, board), [["e2e4", 2], ["d2d4", 1]]);
+
+  board.push(board.parseSan("e4"));
+  assert.equal(bookMoves(book, board), [["c7c5", 2], ["e7e5", 0]]);
+  assert.is(openReader(book).find(board).move.uci(), "c7c5");
+});
+
+building("should write a sorted book", () => {
+  const reader = openReader(buildPolyglotBook(readGames(COLLECTION)));
+  assert.is(reader.length, 7);
+  for (let i = 1; i < reader.length; i++) {
+    assert.ok(reader.entryAt(i - 1).key <= reader.entryAt(i).key);
+  }
+});
+
+building("should limit the plies, variations and side", () => {
+  const games = readGames(COLLECTION);
+  assert.is(openReader(buildPolyglotBook(games, { maxPly: 1 })).length, 2);
+  assert.equal(bookMoves(buildPolyglotBook(games, { color: BLACK }), new Board()), []);
+
+  const repertoire = readGames("1. e4 (1. c4 e5) 1... e5 *");
+  assert.equal(bookMoves(buildPolyglotBook(repertoire), new Board()), [["e2e4", 1], ["c2c4", 1]]);
+  assert.equal(bookMoves(buildPolyglotBook(repertoire, { variations: false }), new Board()), [["e2e4", 1]]);
+});
+
+building("should store castling as king takes rook", () => {
+  const book = buildPolyglotBook(readGames("1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O *"));
+  const board = new Board("r1bqk1nr/pppp1ppp/2n5/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4");
+  const entry = openReader(book).find(board);
+  assert.is(entry.move.uci(), "e1g1");
+  assert.is(entry.rawMove, parseSquare("h1")! | (parseSquare("e1")! << 6));
+});
+
+building.run();
@@ -0,0 +1,75 @@
+/**
+ * Tests for the built-in alpha-beta search
+ */
+
+import { suite } from "uvu";
+import assert from "uvu/assert";
+import { Board, search, evaluate } from "../src";
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+const evaluation = suite("evaluate()");
+
+evaluation("should be symmetric and from the point of view of the side to move", () => {
+  assert.is(evaluate(new Board()), 0);
+
+  const board = new Board("4k3/8/8/8/8/8/8/3QK3 w - - 0 1");
+  assert.ok(evaluate(board) > 800);
+  board.turn = !board.turn;
+  assert.ok(evaluate(board) < -800);
+});
+
+evaluation.run();
+
+// =============================================================================
+// Search
+// =============================================================================
+
+const searching = suite("search()");
+
+searching("should find mates and report their length", () => {
+  const mateInOne = new Board("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1");
+  const result = search(mateInOne);
+  assert.is(result.move!.uci(), "a1a8");
+  assert.is(result.mate, 1);
+
+  const fen = "r5rk/5p1p/5R2/4B3/8/8/7P/7K w - - 0 1";
+  const board = new Board(fen);
+  const mateInThree = search(board, { depth: 5 });
+  assert.equal(mateInThree.pv.map(move => move.uci()), ["f6a6", "f7f6", "e5f6", "g8g7", "a6a8"]);
+  assert.is(mateInThree.mate, 3);
+  assert.is(board.fen(), fen);
+});
+
+searching("should win hanging material and avoid losing captures", () => {
+  const hanging = new Board("4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1");
+  assert.is(search(hanging).move!.uci(), "d1d5");
+
+  // Qxd5 loses the queen to the pawn on c6
+  const defended = new Board("4k3/8/2p5/3p4/8/8/8/3QK3 w - - 0 1");
+  assert.is.not(search(defended).move!.uci(), "d1d5");
+});
+
+searching("should stop at the node budget after the first iteration", () => {
+  const result = search(new Board(), { nodes: 500 });
+  assert.ok(result.move);
+  assert.ok(result.depth >= 1);
+  assert.ok(result.nodes <= 500);
+
+  const timed = search(new Board(), { time: 50 });
+  assert.ok(timed.move);
+});
+
+searching("should return no move when the game is over", () => {
+  const mated = search(new Board("R5k1/5ppp/8/8/8/8/8/6K1 b - - 0 1"));
+  assert.is(mated.move, null);
+  assert.is(mated.mate, 0);
+
+  const stalemate = search(new Board("7k/5Q2/6K1/8/8/8/8/8 b - - 0 1"));
+  assert.is(stalemate.move, null);
+  assert.is(stalemate.score, 0);
+});
+
+searching.run();
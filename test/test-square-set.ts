@@ -0,0 +1,79 @@
+/**
+ * Tests for bitboards and the SquareSet class (matching python-chess)
+ */
+
+import { test, suite } from "uvu";
+import assert from "uvu/assert";
+import {
+  Board, SquareSet, WHITE, BLACK, PAWN, KNIGHT,
+  A1, B1, C3, D4, E4, E5, H8, A8,
+  BB_FILE_A, BB_RANK_1, BB_SQUARES, lsb, msb, popcount, between,
+} from "../src";
+
+// =============================================================================
+// Bitboard Helpers
+// =============================================================================
+
+const bitboards = suite("Bitboard helpers");
+
+bitboards("lsb(), msb() and popcount() should work across both halves", () => {
+  const mask = BB_SQUARES[C3] | BB_SQUARES[E5] | BB_SQUARES[H8];
+  assert.is(lsb(mask), C3);
+  assert.is(msb(mask), H8);
+  assert.is(popcount(mask), 3);
+  assert.is(popcount(BB_FILE_A | BB_RANK_1), 15);
+});
+
+bitboards("between() should return squares strictly between", () => {
+  assert.equal(new SquareSet(between(A1, H8)).toArray().length, 6);
+  assert.is(between(A1, C3) === BB_SQUARES[B1 + 8], true);
+  assert.is(between(A1, B1 + 16), 0n);
+});
+
+bitboards.run();
+
+// =============================================================================
+// SquareSet
+// =============================================================================
+
+const squareSets = suite("SquareSet class");
+
+squareSets("should behave like a set of squares", () => {
+  const squares = new SquareSet([E4, A1]);
+  assert.is(squares.size, 2);
+  assert.ok(squares.has(E4));
+  assert.not.ok(squares.has(D4));
+
+  squares.add(D4);
+  squares.discard(A1);
+  assert.equal(squares.toArray(), [D4, E4]);
+  assert.equal([...squares.reversed()], [E4, D4]);
+  assert.is(squares.pop(), D4);
+  assert.is(squares.size, 1);
+});
+
+squareSets("set operations should return new sets", () => {
+  const a = new SquareSet(BB_FILE_A);
+  const b = new SquareSet(BB_RANK_1);
+  assert.equal(a.intersection(b).toArray(), [A1]);
+  assert.is(a.union(b).size, 15);
+  assert.is(a.symmetricDifference(b).size, 14);
+  assert.ok(SquareSet.fromSquare(A8).isSubset(a));
+  assert.ok(a.mirror().equals(a));
+});
+
+squareSets("ray() and between() should match python-chess", () => {
+  assert.is(SquareSet.ray(A1, C3).size, 8);
+  assert.equal(SquareSet.between(A1, A8).size, 6);
+  assert.ok(SquareSet.ray(A1, B1 + 16).isEmpty());
+});
+
+squareSets("Board.pieces() should return square sets", () => {
+  const board = new Board();
+  assert.is(board.pieces(PAWN, WHITE).size, 8);
+  assert.equal(board.pieces(KNIGHT, BLACK).toArray(), [57, 62]);
+  assert.is(board.colorAt(A1), WHITE);
+  assert.is(board.pieceTypeAt(D4), null);
+});
+
+squareSets.run();
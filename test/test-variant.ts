@@ -0,0 +1,459 @@
+/**
+ * Tests for chess variants (matching python-chess chess.variant)
+ */
+
+import { test, suite } from "uvu";
+import assert from "uvu/assert";
+import {
+  readGame, Game, Move, Board, perft, Termination, WHITE, BLACK, PAWN, KNIGHT, QUEEN, KING,
+  STATUS_VALID, STATUS_NO_WHITE_KING, STATUS_TOO_MANY_KINGS, STATUS_RACE_CHECK, STATUS_RACE_MATERIAL,
+  STATUS_TOO_MANY_CHECKERS, STATUS_IMPOSSIBLE_CHECK,
+  VARIANTS, findVariant, CrazyhouseBoard, CrazyhousePocket, AtomicBoard, AntichessBoard,
+  ThreeCheckBoard, KingOfTheHillBoard, RacingKingsBoard, HordeBoard,
+} from "../src";
+
+// =============================================================================
+// Variant lookup
+// =============================================================================
+
+test("findVariant() should match aliases case-insensitively", () => {
+  assert.is(findVariant("crazyhouse"), CrazyhouseBoard);
+  assert.is(findVariant("ZH"), CrazyhouseBoard);
+  assert.is(findVariant("Standard"), Board);
+  assert.throws(() => findVariant("Shogi"), /Unsupported variant/);
+});
+
+test("status() should accept the starting position of every variant", () => {
+  for (const VariantBoard of VARIANTS) {
+    assert.is(new VariantBoard().status(), STATUS_VALID, VariantBoard.aliases[0]);
+  }
+});
+
+test("status() should follow the variant rules", () => {
+  // 18 black pieces, since two of them were captured from white
+  assert.ok(new CrazyhouseBoard("rnbqkbnr/pppppppp/8/3bn3/8/8/4PPPP/RNBQKBNR[PP] w KQkq - 0 1").isValid());
+  assert.not.ok(new Board("rnbqkbnr/pppppppp/8/3bn3/8/8/4PPPP/RNBQKBNR w KQkq - 0 1").isValid());
+
+  // The white king has just exploded
+  assert.ok(new AtomicBoard("rnbqkbnr/pppppppp/8/8/8/8/PPPPP2P/RNBQ1B1R b kq - 0 1").isValid());
+  assert.is(new AtomicBoard("rnbqkbnr/pppppppp/8/8/8/8/PPPPP2P/RNBQ1B1R w kq - 0 1").status(), STATUS_NO_WHITE_KING);
+
+  assert.ok(new AntichessBoard("8/8/8/8/8/8/8/KK4kk w - - 0 1").isValid());
+  assert.ok(new HordeBoard("4k3/8/8/8/8/8/PPPPPPPP/PPPPPPPP w - - 0 1").isValid());
+  assert.is(new HordeBoard("4k3/8/8/8/8/8/PPPPPPPP/PPPPPPPK w - - 0 1").status(), STATUS_TOO_MANY_KINGS);
+
+  assert.is(
+    new RacingKingsBoard("8/8/8/8/8/8/k6r/7K w - - 0 1").status(),
+    STATUS_RACE_CHECK | STATUS_TOO_MANY_CHECKERS | STATUS_IMPOSSIBLE_CHECK
+  );
+  assert.is(new RacingKingsBoard("8/8/8/8/8/P7/krbnNBRK/qrbnNBRQ w - - 0 1").status(), STATUS_RACE_MATERIAL);
+});
+
+test.run();
+
+// =============================================================================
+// Crazyhouse
+// =============================================================================
+
+const crazyhouse = suite("Crazyhouse");
+
+crazyhouse("pockets should round-trip through the FEN", () => {
+  const board = new CrazyhouseBoard();
+  assert.is(board.fen(), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1");
+
+  // Lichess writes the pockets as a ninth rank
+  const lichess = new CrazyhouseBoard("r1b1k2r/ppp2ppp/2n5/3np3/3P4/2PBBN2/P1P2PPP/R2QK2R/QPbn b KQkq - 0 10");
+  assert.is(lichess.fen(), "r1b1k2r/ppp2ppp/2n5/3np3/3P4/2PBBN2/P1P2PPP/R2QK2R[QPbn] b KQkq - 0 10");
+  assert.is(lichess.pockets[1].count(QUEEN), 1);
+  assert.is(lichess.pockets[0].count(KNIGHT), 1);
+  assert.is(new CrazyhousePocket("pnpq").toString(), "qnpp");
+});
+
+crazyhouse("FEN problems should be located in the original string", () => {
+  const board = new CrazyhouseBoard();
+  assert.equal(board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[Qp] w KQkq - 0 0"), [
+    { field: "fullmoveNumber", offset: 59, message: "invalid fullmove number '0', assuming '1'" },
+  ]);
+  assert.is(board.pockets[1].count(QUEEN), 1);
+  assert.throws(
+    () => board.setFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR/Qx w KQkq - 0 1"),
+    /invalid piece in pocket 'x' \(pockets at offset 45\)/
+  );
+});
+
+crazyhouse("drops should be legal on empty squares only", () => {
+  const board = new CrazyhouseBoard("4k3/8/8/8/8/8/8/R3K3[p] b - - 0 1");
+  const drops = [...board.legalMoves()].filter(move => move.drop !== null);
+  assert.is(drops.length, 64 - 3 - 13);
+  assert.not.ok(board.isLegal(Move.fromUci("P@a1")));
+  assert.not.ok(board.isLegal(Move.fromUci("N@e4")));
+  assert.is(board.san(board.parseSan("P@e4")), "P@e4");
+
+  board.pushSan("P@e4");
+  assert.is(board.fen(), "4k3/8/8/8/4p3/8/8/R3K3[] w - - 0 2");
+  assert.throws(() => board.parseSan("P@d4"));
+  board.pop();
+  assert.is(board.pockets[0].count(PAWN), 1);
+});
+
+crazyhouse("drops should block a check from a distance", () => {
+  const board = new CrazyhouseBoard("4k3/8/8/8/8/8/8/R3K2r[N] w - - 0 1");
+  assert.equal([...board.legalDropSquares()], [5, 6]);
+  const drops = [...board.legalMoves()].filter(move => move.drop !== null).map(move => move.uci());
+  assert.equal(drops, ["N@f1", "N@g1"]);
+  assert.is(board.san(board.parseSan("N@g1")), "N@g1");
+});
+
+crazyhouse("pawn drops should reset the halfmove clock", () => {
+  const board = new CrazyhouseBoard("4k3/8/8/8/8/8/8/4K3[PNpn] w - - 99 80");
+  assert.ok(board.isZeroing(board.parseSan("P@e4")));
+  board.pushSan("N@e4");
+  assert.is(board.halfmoveClock, 100);
+  assert.ok(board.canClaimFiftyMoves());
+  board.pushSan("P@e5");
+  assert.is(board.halfmoveClock, 0);
+  assert.not.ok(board.canClaimFiftyMoves());
+});
+
+crazyhouse("captured promoted pieces should return to the pocket as pawns", () => {
+  const board = new CrazyhouseBoard("q~3k3/8/8/8/8/8/8/R3K3 w - - 0 1");
+  board.pushSan("Rxa8+");
+  assert.is(board.fen(), "R3k3/8/8/8/8/8/8/4K3[P] b - - 0 1");
+  board.pop();
+  assert.is(board.fen(), "q~3k3/8/8/8/8/8/8/R3K3[] w - - 0 1");
+
+  const promotion = new CrazyhouseBoard("4k3/P7/8/8/8/8/8/4K3 w - - 0 1");
+  promotion.pushSan("a8=Q+");
+  assert.is(promotion.boardFen(), "Q~3k3/8/8/8/8/8/8/4K3");
+  assert.is(promotion.boardFen({ promoted: false }), "Q3k3/8/8/8/8/8/8/4K3");
+});
+
+crazyhouse("readGame() should build trees for Crazyhouse games", () => {
+  const game = readGame(`[Variant "Crazyhouse"]
+
+1. e4 d5 2. exd5 Qxd5 3. Nc3 Qa5 4. d4 Nf6 5. Nf3 Bg4 6. Be2 e6 7. O-O Nc6
+8. Bd2 Bb4 9. a3 Bxc3 10. Bxc3 Qb6 11. P@e5 Nd5 12. B@a4 P@h3 13. gxh3 Bxf3
+14. Bxf3 N@e2+ 15. Bxe2 *`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), CrazyhouseBoard);
+  assert.is(game.end().board().fen(), "r3k2r/ppp2ppp/1qn1p3/3nP3/B2P4/P1B4P/1PP1BP1P/R2Q1RK1[BNPn] b kq - 0 15");
+  assert.is(game.end().parent!.san(), "N@e2+");
+  assert.ok(game.toPgn().replace(/\s+/g, " ").includes("14. Bxf3 N@e2+ 15. Bxe2"));
+
+  // Check markers in comments and tags are not touched
+  const commented = readGame(`[Variant "Crazyhouse"]
+[Event "Q@e4# cup"]
+
+1. e4 d5 2. exd5 Qxd5 3. Nc3 Qa5 4. d4 Nf6 5. Nf3 Bg4 6. Be2 e6 7. O-O Nc6
+8. Bd2 Bb4 9. a3 Bxc3 10. Bxc3 Qb6 11. P@e5 Nd5 12. B@a4 P@h3 13. gxh3 Bxf3
+14. Bxf3 {N@e2+ wins the queen} N@e2+ *`)!;
+  assert.is(commented.errors.length, 0);
+  assert.is(commented.headers.get("Event"), "Q@e4# cup");
+  assert.is(commented.end().parent!.comment, "N@e2+ wins the queen");
+  assert.is(commented.end().san(), "N@e2+");
+
+  // A drop without the piece in hand is reported, not thrown
+  const illegal = readGame(`[Variant "Crazyhouse"]
+
+1. e4 N@e5 *`)!;
+  assert.is(illegal.errors.length, 1);
+});
+
+crazyhouse.run();
+
+// =============================================================================
+// Atomic
+// =============================================================================
+
+const atomic = suite("Atomic");
+
+atomic("captures should explode surrounding pieces except pawns", () => {
+  const board = new AtomicBoard("rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2");
+  board.pushSan("exd5");
+  assert.is(board.fen(), "rnbqkbnr/ppp1pppp/8/8/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2");
+
+  board.pushSan("Qxd2#");
+  assert.is(board.fen(), "rnb1kbnr/ppp1pppp/8/8/8/8/PPP2PPP/RN3BNR w kq - 0 3");
+  assert.ok(board.isVariantEnd());
+  assert.ok(board.isVariantLoss());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_LOSS);
+  assert.is(board.outcome()?.winner, BLACK);
+  assert.is([...board.legalMoves()].length, 0);
+
+  board.pop();
+  assert.is(board.fen(), "rnbqkbnr/ppp1pppp/8/8/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2");
+});
+
+atomic("kings should be allowed to touch", () => {
+  const board = new AtomicBoard("8/8/8/8/8/3k4/3K4/8 w - - 0 1");
+  assert.not.ok(board.isCheck());
+  assert.is([...board.legalMoves()].length, 7);
+
+  // A king can not capture, and pieces next to our own king can not be captured
+  const adjacent = new AtomicBoard("8/8/8/8/8/8/3kq3/3K4 w - - 0 1");
+  assert.not.ok(adjacent.isLegal(Move.fromUci("d1e2")));
+  assert.not.ok(new AtomicBoard("4k3/8/8/8/8/8/R3n3/4K3 w - - 0 1").isLegal(Move.fromUci("a2e2")));
+});
+
+atomic("move generation should match perft results", () => {
+  assert.is(perft(new AtomicBoard(), 3), 8902);
+  assert.is(perft(new AtomicBoard("rn2kb1r/1pp1p2p/p2q1pp1/3P4/2P3b1/4PN2/PP3PPP/R2QKB1R b KQkq - 0 1"), 2), 1238);
+});
+
+atomic("readGame() should replay games with the Atomic Variant header", () => {
+  const game = readGame(`[Variant "Atomic"]
+
+1. e4 d5 2. exd5 Qxd2# 0-1`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), AtomicBoard);
+  assert.is(game.end().san(), "Qxd2#");
+  assert.is(game.end().board().result(), "0-1");
+
+  // The capturing pawn exploded, so it can not advance
+  const illegal = readGame(`[Variant "Atomic"]
+
+1. e4 d5 2. exd5 e5 3. d6 *`)!;
+  assert.is(illegal.errors.length, 1);
+});
+
+atomic.run();
+
+// =============================================================================
+// Antichess
+// =============================================================================
+
+const antichess = suite("Antichess");
+
+antichess("captures should be compulsory", () => {
+  const board = new AntichessBoard();
+  assert.is(board.fen(), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1");
+  assert.is(perft(board, 3), 8067);
+
+  board.pushSan("e3");
+  board.pushSan("b5");
+  assert.equal([...board.legalMoves()].map(move => board.san(move)), ["Bxb5"]);
+  assert.not.ok(board.isLegal(Move.fromUci("d2d4")));
+  assert.throws(() => board.parseSan("d4"));
+});
+
+antichess("the king should be an ordinary piece", () => {
+  const board = new AntichessBoard("4k3/8/8/8/8/8/4q3/R3K2R w KQ - 0 1");
+  assert.not.ok(board.isCheck());
+  assert.equal([...board.legalMoves()].map(move => move.uci()), ["e1e2"]);
+  assert.is(board.san(board.parseSan("Kxe2")), "Kxe2");
+
+  // No castling, even with castling rights in the FEN
+  const castling = new AntichessBoard("4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1");
+  assert.is(castling.castlingRights, 0);
+  assert.throws(() => castling.parseSan("O-O"));
+
+  // Pawns may promote to a king
+  const promotion = new AntichessBoard("8/P7/8/8/8/8/8/7k w - - 0 1");
+  const move = promotion.parseSan("a8=K");
+  assert.is(move.promotion, KING);
+  assert.is(move.uci(), "a7a8k");
+  assert.ok(Move.fromUci("a7a8k").equals(move));
+});
+
+antichess("losing all pieces or being stalemated should win", () => {
+  const board = new AntichessBoard("8/8/8/8/8/8/1p6/R7 b - - 0 1");
+  board.pushSan("bxa1=Q");
+  assert.ok(board.isVariantWin());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_WIN);
+  assert.is(board.outcome()?.winner, WHITE);
+  assert.is(board.result(), "1-0");
+
+  const stalemate = new AntichessBoard("8/8/8/8/8/p7/P7/8 b - - 0 1");
+  assert.ok(stalemate.isStalemate());
+  assert.is(stalemate.outcome()?.winner, BLACK);
+});
+
+antichess("readGame() should replay games with the Antichess Variant header", () => {
+  const game = readGame(`[Variant "Antichess"]
+
+1. e3 b5 2. Bxb5 Nc6 3. Bxc6 dxc6 *`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), AntichessBoard);
+  assert.is(game.end().board().fen(), "r1bqkbnr/p1p1pppp/2p5/8/8/4P3/PPPP1PPP/RNBQK1NR w - - 0 4");
+
+  const illegal = readGame(`[Variant "Antichess"]
+
+1. e3 b5 2. Nc3 *`)!;
+  assert.is(illegal.errors.length, 1);
+});
+
+antichess.run();
+
+// =============================================================================
+// Three-check
+// =============================================================================
+
+const threeCheck = suite("Three-check");
+
+threeCheck("checks should be counted in the FEN", () => {
+  const board = new ThreeCheckBoard();
+  assert.is(board.fen(), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 3+3 0 1");
+  assert.equal(board.remainingChecks, [3, 3]);
+
+  const remaining = new ThreeCheckBoard("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 2+3 0 1");
+  assert.equal(remaining.remainingChecks, [3, 2]);
+  assert.is(remaining.fen(), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 2+3 0 1");
+
+  // lichess appends the checks given instead
+  const given = new ThreeCheckBoard("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 +2+0");
+  assert.equal(given.remainingChecks, [3, 1]);
+  assert.is(given.fen(), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 1+3 0 1");
+  assert.throws(() => new ThreeCheckBoard("8/8/8/8/8/8/8/K6k w - - 0 1 +x+0"), /Invalid FEN/);
+
+  board.pushSan("e4");
+  board.pushSan("f5");
+  board.pushSan("Qh5+");
+  assert.equal(board.remainingChecks, [3, 2]);
+  assert.is(board.fen(), "rnbqkbnr/ppppp1pp/8/5p1Q/4P3/8/PPPP1PPP/RNB1KBNR b KQkq - 2+3 1 2");
+  board.pop();
+  assert.equal(board.remainingChecks, [3, 3]);
+});
+
+threeCheck("the third check should win", () => {
+  const game = readGame(`[Variant "Three-check"]
+
+1. e4 e5 2. Bc4 Nc6 3. Bxf7+ Kxf7 4. Qh5+ g6 5. Qxg6+ 1-0`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), ThreeCheckBoard);
+  assert.is(game.end().san(), "Qxg6#");
+
+  const board = game.end().board();
+  assert.ok(board.isGameOver());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_LOSS);
+  assert.is(board.result(), "1-0");
+  assert.is([...board.legalMoves()].length, 0);
+});
+
+threeCheck("Game.fromBoard() should set the Variant header", () => {
+  const game = Game.fromBoard(new ThreeCheckBoard());
+  assert.is(game.headers.get("Variant"), "Three-check");
+  assert.not.ok(game.headers.has("FEN"));
+  assert.instance(game.board(), ThreeCheckBoard);
+});
+
+threeCheck.run();
+
+// =============================================================================
+// King of the Hill
+// =============================================================================
+
+const kingOfTheHill = suite("King of the Hill");
+
+kingOfTheHill("a king in the center should win", () => {
+  const game = readGame(`[Variant "King of the Hill"]
+
+1. d4 e5 2. dxe5 Ke7 3. Kd2 Ke6 4. Kd3 Kxe5 0-1`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), KingOfTheHillBoard);
+
+  const board = game.end().board();
+  assert.ok(board.isVariantEnd());
+  assert.ok(board.isVariantLoss());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_LOSS);
+  assert.is(board.outcome()?.winner, BLACK);
+  assert.is([...board.legalMoves()].length, 0);
+});
+
+kingOfTheHill("a bare king should not be insufficient material", () => {
+  const board = new KingOfTheHillBoard("8/8/8/8/8/8/8/K6k w - - 0 1");
+  assert.not.ok(board.hasInsufficientMaterial(WHITE));
+  assert.is(board.outcome(), null);
+  assert.ok(new Board("8/8/8/8/8/8/8/K6k w - - 0 1").isInsufficientMaterial());
+});
+
+kingOfTheHill.run();
+
+// =============================================================================
+// Racing Kings
+// =============================================================================
+
+const racingKings = suite("Racing Kings");
+
+racingKings("moves that give check should be illegal", () => {
+  assert.is(perft(new RacingKingsBoard(), 2), 421);
+
+  const board = new RacingKingsBoard("8/8/8/8/8/k7/8/1R5K w - - 0 1");
+  assert.not.ok(board.isLegal(Move.fromUci("b1b3")));
+  assert.not.ok(board.isLegal(Move.fromUci("b1a1")));
+  assert.ok(board.isLegal(Move.fromUci("b1b2")));
+  assert.throws(() => board.parseSan("Rb3"));
+});
+
+racingKings("the first king on the eighth rank should win", () => {
+  const board = new RacingKingsBoard("8/6K1/8/8/8/8/k7/8 w - - 0 1");
+  board.pushSan("Kg8");
+  assert.ok(board.isVariantEnd());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_LOSS);
+  assert.is(board.outcome()?.winner, WHITE);
+});
+
+racingKings("black should be able to equalize", () => {
+  const board = new RacingKingsBoard("8/1k4K1/8/8/8/8/8/8 w - - 0 1");
+  board.pushSan("Kg8");
+  assert.not.ok(board.isVariantEnd());
+  assert.is(board.outcome(), null);
+
+  board.pushSan("Kb8");
+  assert.ok(board.isVariantDraw());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_DRAW);
+  assert.is(board.result(), "1/2-1/2");
+});
+
+racingKings("readGame() should replay games with the Racing Kings Variant header", () => {
+  const game = readGame(`[Variant "Racing Kings"]
+
+1. Kh3 Ka3 2. Kg4 Kb4 *`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), RacingKingsBoard);
+  assert.is(game.end().board().fen(), "8/8/8/8/1k4K1/8/1rbnNBR1/qrbnNBRQ w - - 4 3");
+});
+
+racingKings.run();
+
+// =============================================================================
+// Horde
+// =============================================================================
+
+const horde = suite("Horde");
+
+horde("pawns on the first rank should advance two squares", () => {
+  assert.is(perft(new HordeBoard(), 3), 1274);
+
+  const board = new HordeBoard("4k3/8/8/8/8/8/8/P7 w - - 0 1");
+  assert.equal([...board.legalMoves()].map(move => move.uci()).sort(), ["a1a2", "a1a3"]);
+  board.pushSan("a3");
+  assert.is(board.epSquare, null);
+});
+
+horde("capturing the whole horde should win", () => {
+  const board = new HordeBoard("4k3/8/8/8/8/8/8/q6P b - - 0 1");
+  board.pushSan("Qxh1");
+  assert.ok(board.isVariantEnd());
+  assert.ok(board.isVariantLoss());
+  assert.equal(board.outcome()?.termination, Termination.VARIANT_LOSS);
+  assert.is(board.outcome()?.winner, BLACK);
+});
+
+horde("the horde should need enough material against a bare king", () => {
+  assert.ok(new HordeBoard("4k3/8/8/8/8/8/8/2B5 w - - 0 1").hasInsufficientMaterial(WHITE));
+  assert.ok(new HordeBoard("4k3/8/8/8/8/8/8/R1B5 w - - 0 1").hasInsufficientMaterial(WHITE));
+  assert.not.ok(new HordeBoard("4k3/8/8/8/8/8/8/1NB2B2 w - - 0 1").hasInsufficientMaterial(WHITE));
+  assert.not.ok(new HordeBoard("4k3/8/8/8/8/8/P7/1N6 w - - 0 1").hasInsufficientMaterial(WHITE));
+  assert.not.ok(new HordeBoard("4k3/8/8/8/8/8/8/2B5 w - - 0 1").hasInsufficientMaterial(BLACK));
+});
+
+horde("readGame() should replay games with the Horde Variant header", () => {
+  const game = readGame(`[Variant "Horde"]
+
+1. b6 axb6 2. cxb6 cxb6 *`)!;
+  assert.is(game.errors.length, 0);
+  assert.instance(game.board(), HordeBoard);
+  assert.is(game.end().board().fen(), "rnbqkbnr/1p1ppppp/1p6/5PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 3");
+});
+
+horde.run();